@@ -1,284 +1,832 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { fetchPolygonLogs } from './services/blockchainService.ts';
-import { fetchRewards } from './services/ocrosService.ts';
-import { analyzeData } from './services/geminiService.ts';
-import { MergedData, DashboardStats } from './types.ts';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { clearLogCache } from './services/logCacheService.ts';
+import { fetchRewardsForAddresses } from './services/ocrosService.ts';
+import { loadAnalysisSettings, saveAnalysisSettings, createAnalysisProvider, analyzeData } from './services/analysisService.ts';
+import {
+  MergedData,
+  DashboardStats,
+  BlockRange,
+  RpcEndpointStatus,
+  LGNSEvent,
+  Snapshot,
+  SnapshotSummary,
+  TrackedEvent,
+  ChainSettings,
+  ScanWindow,
+  WindowPreset,
+  ResolvedWindow,
+  AddressBook,
+  FilterSpec,
+  ExportFormat,
+  LiveStatus,
+  LiveFeedEntry,
+  AlertSettings,
+  AlertEntry,
+  AnalysisSettings,
+  AnalysisResult,
+  FilterPreset
+} from './types.ts';
+import { createRpcPool } from './services/rpcPool.ts';
 import StatCard from './components/StatCard.tsx';
+import RpcEndpointList from './components/RpcEndpointList.tsx';
+import AddressDetailPanel from './components/AddressDetailPanel.tsx';
+import SnapshotPanel from './components/SnapshotPanel.tsx';
+import TimeSeriesPanel from './components/TimeSeriesPanel.tsx';
+import TrackedEventEditor from './components/TrackedEventEditor.tsx';
+import RewardRecordsRow from './components/RewardRecordsRow.tsx';
+import AddressBookPanel from './components/AddressBookPanel.tsx';
+import FilterBuilder from './components/FilterBuilder.tsx';
+import {
+  loadFilterPresets,
+  saveFilterPresets,
+  upsertPreset,
+  loadActiveFilter,
+  saveActiveFilter
+} from './services/filterPresetService.ts';
+import { matchesFilter, isFilterActive, createGroup, createCondition } from './utils/filters.ts';
+import { SortKey, SortRule, DEFAULT_SORT, nextSortRules, sortRows, formatSortParam, parseSortParam } from './utils/sorting.ts';
+import Pagination from './components/Pagination.tsx';
+import ReconciliationPanel from './components/ReconciliationPanel.tsx';
+import LiveFeed from './components/LiveFeed.tsx';
+import AlertPanel from './components/AlertPanel.tsx';
+import AnalysisPanel from './components/AnalysisPanel.tsx';
+import DatasetChat from './components/DatasetChat.tsx';
+import { loadAlertSettings, saveAlertSettings, loadAlertLog, saveAlertLog, deliverAlerts } from './services/alertService.ts';
+import { evaluateAlertRules } from './utils/alertRules.ts';
+import { startLiveFollower, LiveUpdate, LiveFollower } from './services/liveService.ts';
+import { runScanPipeline, pendingRewards, withRewards } from './services/scanPipeline.ts';
+import {
+  loadAddressBook,
+  saveAddressBook,
+  setLabel,
+  toggleWatchlistAddress,
+  watchlistsByAddress
+} from './services/addressBookService.ts';
+import { createExportMetadata, renderExport, verifyPayoutManifest, isPayoutManifest } from './services/exportService.ts';
+import { downloadFile } from './utils/download.ts';
+import { loadTrackedEvents, saveTrackedEvents, resolveEventSource } from './services/eventRegistry.ts';
+import { loadChainSettings, saveChainSettings, chainSettingsFor } from './services/chainRegistry.ts';
+import { saveSnapshot, listSnapshots, getSnapshot, deleteSnapshot } from './services/snapshotService.ts';
+import { formatTrend } from './utils/snapshotDiff.ts';
+import { WINDOW_PRESET_LABELS, windowTimeBounds, toUtcInputValue, fromUtcInputValue, formatUtc } from './utils/timeWindow.ts';
+import {
+  formatAmount,
+  toDecimalString,
+  amountToNumber,
+  compareAmounts
+} from './utils/amount.ts';
+import {
+  AmountMetric,
+  METRIC_LABELS,
+  aggregateEvents,
+  eventKey,
+  metricValue,
+  metricThreshold,
+  formatMetric,
+  computeStats
+} from './utils/aggregation.ts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { 
-  CONTRACT_ADDRESS, 
-  DEFAULT_POLYGON_RPC, 
-  DEFAULT_BLOCKS_RANGE, 
+  CHAIN_PROFILES,
+  DEFAULT_CHAIN,
   DEFAULT_MIN_THRESHOLD,
   DEFAULT_SCAN_CHUNK,
-  LGNS_PRECISION
+  DEFAULT_RPC_BATCH_SIZE,
+  DEFAULT_RPC_MAX_IN_FLIGHT,
+  LIVE_FEED_SIZE,
+  ALERT_LOG_SIZE
 } from './constants.ts';
 
-type SortKey = 'level' | 'reward' | 'latestLgns';
-type SortDirection = 'asc' | 'desc' | null;
+const PAGE_SIZES = [25, 50, 100, 250, 500];
+
+const LABELED_FILTER = '__labeled';
 
 const App: React.FC = () => {
-  const [rpcUrl, setRpcUrl] = useState(() => localStorage.getItem('lgns_rpc') || DEFAULT_POLYGON_RPC);
-  const [blockRange, setBlockRange] = useState(() => Number(localStorage.getItem('lgns_range')) || DEFAULT_BLOCKS_RANGE);
+  // RPC endpoints, explorer and window size are kept per chain profile.
+  const [chainSettings, setChainSettings] = useState<Record<string, ChainSettings>>(loadChainSettings);
+  const [scanWindow, setScanWindow] = useState<ScanWindow>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('lgns_window') || '');
+    } catch {
+      return { preset: 'blocks' };
+    }
+  });
   const [threshold, setThreshold] = useState(() => Number(localStorage.getItem('lgns_threshold')) || DEFAULT_MIN_THRESHOLD);
+  // Drives the threshold filter, the sort on the output column and the chart.
+  const [metric, setMetric] = useState<AmountMetric>(() => (localStorage.getItem('lgns_metric') as AmountMetric) || 'totalLgns');
+  // Threshold and metric apply after the scan; the sync reads them through refs so tuning
+  // either one filters instantly instead of starting a rescan.
+  const thresholdRef = useRef(threshold);
+  const metricRef = useRef(metric);
+  thresholdRef.current = threshold;
+  metricRef.current = metric;
+  const [filterSpec, setFilterSpec] = useState<FilterSpec>(loadActiveFilter);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  const [showFilters, setShowFilters] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(() => (localStorage.getItem('lgns_export_format') as ExportFormat) || 'csv');
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const manifestInput = useRef<HTMLInputElement>(null);
   const [scanChunkSize, setScanChunkSize] = useState(() => Number(localStorage.getItem('lgns_chunk')) || DEFAULT_SCAN_CHUNK);
+  const [rpcBatchSize, setRpcBatchSize] = useState(() => Number(localStorage.getItem('lgns_batch')) || DEFAULT_RPC_BATCH_SIZE);
+  const [rpcMaxInFlight, setRpcMaxInFlight] = useState(() => Number(localStorage.getItem('lgns_inflight')) || DEFAULT_RPC_MAX_IN_FLIGHT);
+  const [trackedEvents, setTrackedEvents] = useState<TrackedEvent[]>(loadTrackedEvents);
+  const [activeEventId, setActiveEventId] = useState(() => localStorage.getItem('lgns_active_event') || '');
   const [showSettings, setShowSettings] = useState(false);
   const [searchAddress, setSearchAddress] = useState('');
+  const [addressBook, setAddressBook] = useState<AddressBook>(loadAddressBook);
+  // '' shows every row, LABELED_FILTER only labeled rows, anything else is a watchlist id.
+  const [tableWatchlistId, setTableWatchlistId] = useState('');
+  // Restricts the stat cards and charts to one watchlist; '' means all rows.
+  const [scopeWatchlistId, setScopeWatchlistId] = useState('');
   
-  const [actualScanRange, setActualScanRange] = useState<{ start: number; end: number } | null>(null);
+  const [actualScanRange, setActualScanRange] = useState<ResolvedWindow | null>(null);
   const [scanProgress, setScanProgress] = useState({ current: 0, total: 0 });
+  const [cacheStats, setCacheStats] = useState<{ fetched: number; cached: number } | null>(null);
+  const [scanGaps, setScanGaps] = useState<BlockRange[]>([]);
+  const [effectiveChunkSize, setEffectiveChunkSize] = useState<number | null>(null);
+  const [rpcEndpoints, setRpcEndpoints] = useState<RpcEndpointStatus[]>([]);
+  const [scanCancelled, setScanCancelled] = useState(false);
+  const scanAbortRef = useRef<AbortController | null>(null);
   
-  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ 
-    key: 'latestLgns', 
-    direction: 'desc' 
+  // Sort and paging live in the URL (?sort=metric:desc,address:asc&page=2&size=50) so a view can be shared.
+  const [sortRules, setSortRules] = useState<SortRule[]>(
+    () => parseSortParam(new URLSearchParams(window.location.search).get('sort')) ?? DEFAULT_SORT
+  );
+  const [pageSize, setPageSize] = useState(() => {
+    const size = Number(new URLSearchParams(window.location.search).get('size'));
+    return PAGE_SIZES.includes(size) ? size : 50;
   });
+  const [page, setPage] = useState(() => Math.max(0, (Number(new URLSearchParams(window.location.search).get('page')) || 1) - 1));
 
   const [data, setData] = useState<MergedData[]>([]);
+  const [windowEvents, setWindowEvents] = useState<LGNSEvent[]>([]);
+  const [blockTimes, setBlockTimes] = useState<Map<number, number>>(new Map());
+  const [selectedAddress, setSelectedAddress] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [viewingSnapshot, setViewingSnapshot] = useState<Snapshot | null>(null);
+  const [liveSnapshotId, setLiveSnapshotId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
-  const [loadingStage, setLoadingStage] = useState<'idle' | 'logs' | 'rewards' | 'analyzing'>('idle');
+  const [loadingStage, setLoadingStage] = useState<'idle' | 'logs' | 'rewards'>('idle');
   const [rewardProgress, setRewardProgress] = useState({ current: 0, total: 0 });
   const [error, setError] = useState<string | null>(null);
-  const [aiAnalysis, setAiAnalysis] = useState<string>('');
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const autoAnalysedRun = useRef<number | null>(null);
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
+  const [retryingRewards, setRetryingRewards] = useState(false);
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const rewardsInFlight = useRef<Set<string>>(new Set());
+  const [liveMode, setLiveMode] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  const [liveFeed, setLiveFeed] = useState<LiveFeedEntry[]>([]);
+  // The follower starts from whatever the last scan produced without restarting on every event.
+  const windowEventsRef = useRef(windowEvents);
+  const actualScanRangeRef = useRef(actualScanRange);
+  windowEventsRef.current = windowEvents;
+  actualScanRangeRef.current = actualScanRange;
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [alertLog, setAlertLog] = useState<AlertEntry[]>(loadAlertLog);
+  // The run before the current one, tagged with the run it belongs to so a stale baseline is never used.
+  const [previousRun, setPreviousRun] = useState<{ runId: number; snapshot: Snapshot | null } | null>(null);
+  const firedAlerts = useRef<Set<string>>(new Set(alertLog.map(entry => entry.fingerprint)));
+
+  const activeEvent = trackedEvents.find(event => event.id === activeEventId) || trackedEvents[0];
+  const decimals = activeEvent.decimals;
+  const chainProfile = CHAIN_PROFILES[activeEvent.chain] || CHAIN_PROFILES[DEFAULT_CHAIN];
+  const { rpcs: rpcList, blockRange, explorerUrl, wsUrl = '' } = chainSettingsFor(chainSettings, chainProfile);
+
+  const updateChainSettings = (patch: Partial<ChainSettings>) => {
+    setChainSettings(prev => ({
+      ...prev,
+      [chainProfile.key]: { ...chainSettingsFor(prev, chainProfile), ...patch },
+    }));
+  };
 
   const processLogs = useCallback(async () => {
+    scanAbortRef.current?.abort();
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+
     try {
       setLoading(true);
       setLoadingStage('logs');
       setError(null);
+      setScanCancelled(false);
       setScanProgress({ current: 0, total: 0 });
-      
-      const blockRes = await fetch(rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'eth_blockNumber',
-          params: [],
-        }),
-      });
-      const blockJson = await blockRes.json();
-      if (!blockJson.error) {
-        const latest = parseInt(blockJson.result, 16);
-        const start = Math.max(0, latest - blockRange);
-        setActualScanRange({ start, end: latest });
-      }
 
-      const logs = await fetchPolygonLogs(
-        rpcUrl, 
-        blockRange, 
-        scanChunkSize,
-        (scanned, total) => setScanProgress({ current: scanned, total })
-      );
-      
-      if (!Array.isArray(logs)) throw new Error("Invalid response from blockchain node.");
-      
-      const contractLower = (CONTRACT_ADDRESS || "").toLowerCase();
-      const rawAddressMap = new Map<string, { amount: number, txHash: string }>();
-      
-      logs.forEach(event => {
-        if (!event || !event.address) return;
-        const addr = event.address.toLowerCase();
-        if (addr !== contractLower) {
-          const current = rawAddressMap.get(addr);
-          if (!current || event.amount > current.amount) {
-            rawAddressMap.set(addr, { 
-              amount: event.amount, 
-              txHash: event.transactionHash 
-            });
-          }
-        }
+      const syncThreshold = thresholdRef.current;
+      const syncMetric = metricRef.current;
+      const scan = await runScanPipeline({
+        tracked: activeEvent,
+        profile: chainProfile,
+        rpcs: rpcList.split('\n'),
+        window: scanWindow,
+        blockCount: blockRange,
+        chunkSize: scanChunkSize,
+        batchSize: rpcBatchSize,
+        maxInFlight: rpcMaxInFlight,
+        threshold: syncThreshold,
+        metric: syncMetric,
+        signal: controller.signal,
+        onEndpoints: setRpcEndpoints,
+        onRange: setActualScanRange,
+        onStage: setLoadingStage,
+        onScanProgress: (scanned, total) => setScanProgress({ current: scanned, total }),
+        onRewardProgress: (settled, total) => setRewardProgress({ current: settled, total }),
       });
+      const { source, range, events: logs, gaps, results: mergedResults } = scan;
+      setCacheStats({ fetched: scan.fetchedBlocks, cached: scan.cachedBlocks });
+      setScanGaps(gaps);
+      setEffectiveChunkSize(scan.chunkSize);
+      setBlockTimes(scan.blockTimes);
+      setData(scan.rows);
+      setWindowEvents(logs);
+      setViewingSnapshot(null);
 
-      const uniqueAddresses = Array.from(rawAddressMap.keys());
-      const filteredAddresses = uniqueAddresses.filter(addr => (rawAddressMap.get(addr)?.amount || 0) >= threshold);
-
-      setLoadingStage('rewards');
-      setRewardProgress({ current: 0, total: filteredAddresses.length });
-      
-      const CONCURRENCY = 8;
-      const mergedResults: MergedData[] = [];
-      
-      for (let i = 0; i < filteredAddresses.length; i += CONCURRENCY) {
-        const batch = filteredAddresses.slice(i, i + CONCURRENCY);
-        const batchPromises = batch.map(async (addr) => {
-          try {
-            const entry = rawAddressMap.get(addr)!;
-            const rewardData = await fetchRewards(addr);
-            return {
-              address: addr,
-              latestLgns: entry.amount,
-              latestTxHash: entry.txHash,
-              level: rewardData?.level ?? 0,
-              reward: rewardData?.reward ?? 0,
-              isFetchingReward: false,
-            };
-          } catch (e) {
-            const entry = rawAddressMap.get(addr)!;
-            return {
-              address: addr,
-              latestLgns: entry.amount,
-              latestTxHash: entry.txHash,
-              level: 0,
-              reward: 0,
-              isFetchingReward: false,
-            };
-          }
-        });
-        
-        const results = await Promise.all(batchPromises);
-        mergedResults.push(...results);
-        setRewardProgress(prev => ({ ...prev, current: mergedResults.length }));
-        
-        if (i + CONCURRENCY < filteredAddresses.length) {
-          await new Promise(resolve => setTimeout(resolve, 30));
-        }
-      }
-
-      setData(mergedResults);
-
-      setLoadingStage('analyzing');
-      setIsAnalyzing(true);
+      const savedAddresses = new Set<string>(mergedResults.map(row => row.address));
+      const snapshot: Snapshot = {
+        id: Date.now(),
+        trackedEventId: source.id,
+        decimals: source.decimals,
+        createdAt: Date.now(),
+        range,
+        settings: { blockRange: range.end - range.start + 1, window: scanWindow, threshold: syncThreshold, metric: syncMetric, chunkSize: scanChunkSize, rpcs: scan.rpcs },
+        stats: computeStats(mergedResults),
+        gaps,
+        data: mergedResults,
+        events: logs.filter(event => savedAddresses.has(event.address.toLowerCase())),
+        blockTimes: scan.blockTimes,
+      };
       try {
-        const analysis = await analyzeData(mergedResults);
-        setAiAnalysis(String(analysis || ""));
-      } catch (aiErr) {
-        console.warn("AI Analysis failed:", aiErr);
+        await saveSnapshot(snapshot);
+        setLiveSnapshotId(snapshot.id);
+        setSnapshots(await listSnapshots());
+      } catch (snapshotErr) {
+        console.warn("Failed to save snapshot:", snapshotErr);
       }
-      setIsAnalyzing(false);
 
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Superseded by a newer sync, or cancelled by the user; completed chunks stay cached.
+        if (scanAbortRef.current === controller) setScanCancelled(true);
+        return;
+      }
       console.error("Critical Failure:", err);
       setError(err.message || 'An unexpected error occurred during data synchronization.');
     } finally {
-      setLoading(false);
-      setLoadingStage('idle');
+      if (scanAbortRef.current === controller) {
+        setLoading(false);
+        setLoadingStage('idle');
+      }
     }
-  }, [rpcUrl, blockRange, threshold, scanChunkSize]);
+  }, [rpcList, blockRange, scanWindow, scanChunkSize, rpcBatchSize, rpcMaxInFlight, activeEvent, chainProfile]);
+
+  const cancelSync = () => {
+    scanAbortRef.current?.abort();
+  };
 
   useEffect(() => {
     processLogs();
   }, [processLogs]);
 
-  const handleSort = (key: SortKey) => {
-    let direction: SortDirection = 'desc';
-    if (sortConfig.key === key && sortConfig.direction === 'desc') {
-      direction = 'asc';
-    } else if (sortConfig.key === key && sortConfig.direction === 'asc') {
-      direction = null; // Reset sort
+  useEffect(() => {
+    listSnapshots().then(setSnapshots).catch(err => console.warn("Failed to load snapshots:", err));
+  }, []);
+
+  const switchEvent = (id: string) => {
+    if (id === activeEvent.id) return;
+    localStorage.setItem('lgns_active_event', id);
+    setActiveEventId(id);
+    setData([]);
+    setWindowEvents([]);
+    setLiveFeed([]);
+    setViewingSnapshot(null);
+    setLiveSnapshotId(null);
+    setSelectedAddress(null);
+  };
+
+  const handleSaveTrackedEvents = (events: TrackedEvent[]) => {
+    saveTrackedEvents(events);
+    setTrackedEvents(events);
+    if (!events.some(event => event.id === activeEvent.id)) switchEvent(events[0].id);
+  };
+
+  /**
+   * Fetches rewards for live rows and merges them in by address, so rows replaced by a
+   * newer sync in the meantime are left alone.
+   */
+  const loadRewards = async (addresses: string[]) => {
+    addresses.forEach(address => rewardsInFlight.current.add(address));
+    const requested = new Set(addresses);
+    setData(prev => prev.map(row => (requested.has(row.address) ? { ...row, isFetchingReward: true, error: undefined } : row)));
+    try {
+      const outcomes = await fetchRewardsForAddresses(addresses);
+      setData(prev => prev.map(row => (outcomes.has(row.address) ? withRewards(row, outcomes.get(row.address)!) : row)));
+      return outcomes;
+    } finally {
+      addresses.forEach(address => rewardsInFlight.current.delete(address));
+    }
+  };
+
+  const retryFailedRewards = async () => {
+    const failed = thresholdedLive.filter(row => row.error).map(row => row.address);
+    if (failed.length === 0) return;
+    setRetryingRewards(true);
+    try {
+      const outcomes = await loadRewards(failed);
+      if (liveSnapshotId !== null) {
+        const snapshot = await getSnapshot(liveSnapshotId);
+        if (snapshot) {
+          const updated = snapshot.data.map(row => (outcomes.has(row.address) ? withRewards(row, outcomes.get(row.address)!) : row));
+          await saveSnapshot({ ...snapshot, data: updated, stats: computeStats(updated) });
+          setSnapshots(await listSnapshots());
+        }
+      }
+    } catch (err) {
+      console.warn("Failed to update snapshot after reward retry:", err);
+    } finally {
+      setRetryingRewards(false);
+    }
+  };
+
+  const openSnapshot = async (id: number) => {
+    if (id === liveSnapshotId) {
+      setViewingSnapshot(null);
+      return;
+    }
+    try {
+      setViewingSnapshot(await getSnapshot(id));
+    } catch (err) {
+      console.warn("Failed to open snapshot:", err);
+    }
+  };
+
+  const removeSnapshot = async (id: number) => {
+    try {
+      await deleteSnapshot(id);
+      if (viewingSnapshot?.id === id) setViewingSnapshot(null);
+      setSnapshots(await listSnapshots());
+    } catch (err) {
+      console.warn("Failed to delete snapshot:", err);
     }
-    setSortConfig({ key, direction });
   };
 
+  const updateAddressBook = (book: AddressBook) => {
+    setAddressBook(book);
+    saveAddressBook(book);
+  };
+
+  const memberships = useMemo(() => watchlistsByAddress(addressBook), [addressBook]);
+
+  const inWatchlist = useCallback((watchlistId: string, address: string) => {
+    if (watchlistId === LABELED_FILTER) return Boolean(addressBook.labels[address]);
+    return addressBook.watchlists.find(list => list.id === watchlistId)?.addresses.includes(address) ?? false;
+  }, [addressBook]);
+
+  // Filters referring to a deleted watchlist fall back to all rows.
+  const tableFilter = tableWatchlistId === LABELED_FILTER || addressBook.watchlists.some(list => list.id === tableWatchlistId) ? tableWatchlistId : '';
+  const scopeFilter = addressBook.watchlists.some(list => list.id === scopeWatchlistId) ? scopeWatchlistId : '';
+
+  const handleSort = (key: SortKey, event: React.MouseEvent) => {
+    setSortRules(prev => nextSortRules(prev, key, event.shiftKey));
+    setPage(0);
+  };
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    params.set('sort', formatSortParam(sortRules));
+    params.set('page', String(page + 1));
+    params.set('size', String(pageSize));
+    window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}${window.location.hash}`);
+  }, [sortRules, page, pageSize]);
+
+  const thresholdRaw = metricThreshold(threshold, metric, decimals);
+  const passesThreshold = useCallback(
+    (row: MergedData) => metricValue(row, metric) >= thresholdRaw,
+    [metric, thresholdRaw]
+  );
+
+  const thresholdedLive = useMemo(() => data.filter(passesThreshold), [data, passesThreshold]);
+  const failedRewardCount = useMemo(() => thresholdedLive.filter(row => row.error).length, [thresholdedLive]);
+
+  // Lowering the threshold reveals rows whose rewards were never fetched.
+  useEffect(() => {
+    if (loading) return;
+    const missing = thresholdedLive
+      .filter(row => row.isFetchingReward && !rewardsInFlight.current.has(row.address))
+      .map(row => row.address);
+    if (missing.length > 0) loadRewards(missing);
+  }, [thresholdedLive, loading]);
+
+  /**
+   * Folds live events into the window and re-aggregates. Known addresses keep their rewards;
+   * new ones start pending, so the backfill above fetches rewards only for them.
+   */
+  const applyLiveUpdate = useCallback(({ added, removed, head }: LiveUpdate, contractAddress: string) => {
+    const removedKeys = new Set(removed.map(eventKey));
+    const kept = windowEventsRef.current.filter(event => !removedKeys.has(eventKey(event)));
+    const keptKeys = new Set(kept.map(eventKey));
+    const events = [...kept, ...added.filter(event => !keptKeys.has(eventKey(event)))];
+    windowEventsRef.current = events;
+    setWindowEvents(events);
+
+    const aggregates = aggregateEvents(events, contractAddress);
+    setData(prev => {
+      const previous = new Map<string, MergedData>(prev.map(row => [row.address, row]));
+      return Array.from(aggregates.values()).map(row => {
+        const existing = previous.get(row.address);
+        return existing ? { ...existing, ...row } : pendingRewards(row);
+      });
+    });
+    setActualScanRange(prev => (prev && head > prev.end ? { ...prev, end: head, endTime: null } : prev));
+
+    const receivedAt = Date.now();
+    const newest = (a: LGNSEvent, b: LGNSEvent) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+    setLiveFeed(prev => [
+      ...removed.map(event => ({ event, removed: true, receivedAt })),
+      ...[...added].sort(newest).map(event => ({ event, removed: false, receivedAt })),
+      ...prev,
+    ].slice(0, LIVE_FEED_SIZE));
+  }, []);
+
+  // Live mode needs a window that ends at the chain head.
+  const windowFollowsHead = useMemo(() => {
+    try {
+      const bounds = windowTimeBounds(scanWindow);
+      return !bounds || bounds.to * 1000 >= Date.now() - 60000;
+    } catch {
+      return false;
+    }
+  }, [scanWindow]);
+
+  useEffect(() => {
+    if (!liveMode || loading || !windowFollowsHead || !actualScanRangeRef.current) return;
+    const range = actualScanRangeRef.current;
+    let follower: LiveFollower | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const source = resolveEventSource(activeEvent);
+        const rpc = createRpcPool(rpcList.split('\n'), { maxInFlight: rpcMaxInFlight, expectedChainId: source.chainId });
+        await rpc.probe();
+        if (cancelled) return;
+        follower = startLiveFollower({
+          rpc,
+          source,
+          windowStart: range.start,
+          coveredTo: range.end,
+          knownEvents: windowEventsRef.current,
+          wsUrl: wsUrl.trim() || undefined,
+          onUpdate: update => applyLiveUpdate(update, source.address),
+          onStatus: setLiveStatus,
+        });
+      } catch (err: any) {
+        if (!cancelled) setLiveStatus({ transport: 'polling', head: null, lastSweepAt: null, reorgedEvents: 0, error: err.message });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      follower?.stop();
+    };
+  }, [liveMode, loading, windowFollowsHead, activeEvent, rpcList, rpcMaxInFlight, wsUrl, applyLiveUpdate]);
+
+  const updateFilterSpec = (spec: FilterSpec) => {
+    setFilterSpec(spec);
+    saveActiveFilter(spec);
+  };
+
+  // Rows behind a chat answer open in the table as an address filter the user can edit or clear.
+  const showAddressesInTable = (addresses: string[]) => {
+    updateFilterSpec({ combinator: 'and', groups: [{ ...createGroup(), conditions: [{ ...createCondition('include'), addresses }] }] });
+    setSearchAddress('');
+    setTableWatchlistId('');
+    setPage(0);
+    setShowFilters(true);
+  };
+
+  const saveFilterPreset = (name: string) => {
+    const presets = upsertPreset(filterPresets, name, filterSpec);
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
+
+  const deleteFilterPreset = (name: string) => {
+    const presets = filterPresets.filter(preset => preset.name !== name);
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
+
+  const viewData = useMemo(
+    () => (viewingSnapshot ? viewingSnapshot.data : data).filter(passesThreshold),
+    [viewingSnapshot, data, passesThreshold]
+  );
+
   const sortedAndFilteredData = useMemo(() => {
-    let result = [...data];
+    let result = [...viewData];
     if (searchAddress) {
       const lowerSearch = searchAddress.toLowerCase();
-      result = result.filter(item => item.address.toLowerCase().includes(lowerSearch));
+      result = result.filter(item =>
+        item.address.toLowerCase().includes(lowerSearch) ||
+        (addressBook.labels[item.address] || '').toLowerCase().includes(lowerSearch)
+      );
+    }
+    if (tableFilter) {
+      result = result.filter(item => inWatchlist(tableFilter, item.address));
     }
-    if (sortConfig.direction) {
-      result.sort((a, b) => {
-        const valA = Number(a[sortConfig.key]) || 0;
-        const valB = Number(b[sortConfig.key]) || 0;
-        if (valA === valB) return 0;
-        return sortConfig.direction === 'asc' ? valA - valB : valB - valA;
+    if (isFilterActive(filterSpec)) {
+      result = result.filter(item => matchesFilter(item, filterSpec, decimals));
+    }
+    return sortRows(result, sortRules, { metric, labels: addressBook.labels });
+  }, [viewData, searchAddress, sortRules, metric, addressBook, tableFilter, inWatchlist, filterSpec, decimals]);
+
+  // Snapshots from before the event registry existed belong to the default LGNS event.
+  const eventSnapshots = useMemo(
+    () => snapshots.filter(snapshot => (snapshot.trackedEventId ?? trackedEvents[0]?.id) === activeEvent.id),
+    [snapshots, trackedEvents, activeEvent]
+  );
+
+  useEffect(() => {
+    if (liveSnapshotId === null) return;
+    const previous = eventSnapshots
+      .filter(snapshot => snapshot.createdAt < liveSnapshotId)
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+    let cancelled = false;
+    (previous ? getSnapshot(previous.id) : Promise.resolve(null))
+      .then(snapshot => { if (!cancelled) setPreviousRun({ runId: liveSnapshotId, snapshot: snapshot || null }); })
+      .catch(err => console.warn("Failed to load the previous run:", err));
+    return () => { cancelled = true; };
+  }, [liveSnapshotId, eventSnapshots]);
+
+  const updateAlertSettings = (settings: AlertSettings) => {
+    setAlertSettings(settings);
+    saveAlertSettings(settings);
+  };
+
+  // Rules run whenever a finished sync or a live update changes the data.
+  useEffect(() => {
+    if (loading || liveSnapshotId === null || previousRun?.runId !== liveSnapshotId) return;
+    const matches = evaluateAlertRules(alertSettings.rules, {
+      runId: liveSnapshotId,
+      rows: thresholdedLive,
+      threshold,
+      metric,
+      events: windowEvents,
+      gaps: scanGaps,
+      baseline: previousRun.snapshot,
+      decimals,
+      contractAddress: activeEvent.contractAddress.toLowerCase(),
+    }).filter(match => !firedAlerts.current.has(match.fingerprint));
+    if (matches.length === 0) return;
+    matches.forEach(match => firedAlerts.current.add(match.fingerprint));
+    deliverAlerts(matches, alertSettings, { chain: chainProfile.name, eventName: activeEvent.name }).then(entries => {
+      setAlertLog(prev => {
+        const next = [...entries, ...prev].slice(0, ALERT_LOG_SIZE);
+        saveAlertLog(next);
+        return next;
       });
-    } else {
-      result.sort((a, b) => b.latestLgns - a.latestLgns);
+    });
+  }, [loading, liveSnapshotId, previousRun, thresholdedLive, threshold, metric, windowEvents, scanGaps, alertSettings, decimals, activeEvent, chainProfile]);
+
+  const updateAnalysisSettings = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+  };
+
+  // Analyses what is on screen: an open snapshot on its own, the live run against the run before it.
+  const runAnalysis = useCallback(async () => {
+    const provider = createAnalysisProvider(analysisSettings);
+    if (!provider) return;
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setIsAnalyzing(true);
+    setAnalysisError(null);
+    try {
+      const result = await analyzeData(provider, {
+        rows: viewData,
+        decimals,
+        chainName: chainProfile.name,
+        eventName: activeEvent.name,
+        range: viewingSnapshot ? viewingSnapshot.range : actualScanRange,
+        gaps: viewingSnapshot ? viewingSnapshot.gaps : scanGaps,
+        baseline: !viewingSnapshot && previousRun?.runId === liveSnapshotId ? previousRun.snapshot : null,
+      }, controller.signal);
+      if (!controller.signal.aborted) setAnalysis(result);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.warn("AI Analysis failed:", err);
+      setAnalysisError(err.message || 'Analysis failed.');
+    } finally {
+      if (analysisAbortRef.current === controller) setIsAnalyzing(false);
     }
-    return result;
-  }, [data, searchAddress, sortConfig]);
+  }, [analysisSettings, viewData, decimals, chainProfile, activeEvent, viewingSnapshot, actualScanRange, scanGaps, previousRun, liveSnapshotId]);
 
-  const stats: DashboardStats = useMemo(() => {
-    if (!data || data.length === 0) return { totalUsers: 0, totalLgns: 0, avgLevel: 0, peakOutput: 0 };
-    const totalLgns = data.reduce((acc, curr) => acc + (Number(curr.latestLgns) || 0), 0);
-    const peak = data.reduce((max, d) => Math.max(max, Number(d.latestLgns) || 0), 0);
-    const avgLvl = data.reduce((acc, curr) => acc + (Number(curr.level) || 0), 0) / data.length;
-    return { totalUsers: data.length, totalLgns, avgLevel: avgLvl, peakOutput: peak };
-  }, [data]);
+  // A report only describes the data it was generated from.
+  useEffect(() => {
+    analysisAbortRef.current?.abort();
+    setAnalysis(null);
+    setAnalysisError(null);
+  }, [liveSnapshotId, viewingSnapshot]);
+
+  // Auto-run fires once per completed sync, after the previous run is known for the deltas.
+  useEffect(() => {
+    if (!analysisSettings.autoRun || loading || viewingSnapshot || liveSnapshotId === null) return;
+    if (previousRun?.runId !== liveSnapshotId || autoAnalysedRun.current === liveSnapshotId) return;
+    autoAnalysedRun.current = liveSnapshotId;
+    runAnalysis();
+  }, [analysisSettings.autoRun, loading, viewingSnapshot, liveSnapshotId, previousRun, runAnalysis]);
+
+  const scopedData = useMemo(
+    () => (scopeFilter ? viewData.filter(item => inWatchlist(scopeFilter, item.address)) : viewData),
+    [viewData, scopeFilter, inWatchlist]
+  );
+
+  const stats: DashboardStats = useMemo(() => computeStats(scopedData), [scopedData]);
+
+  // Trends compare against the snapshot taken just before the one on screen.
+  const trendBaseline = useMemo(() => {
+    // Snapshot stats cover every row, so a scoped view has nothing comparable.
+    if (scopeFilter) return undefined;
+    const shownId = viewingSnapshot ? viewingSnapshot.id : liveSnapshotId;
+    return eventSnapshots.find(snapshot => shownId === null || snapshot.id < shownId)?.stats;
+  }, [eventSnapshots, viewingSnapshot, liveSnapshotId, scopeFilter]);
+
+  // Charts follow the table's rows, narrowed to the stat scope when one is set.
+  const pageCount = Math.max(1, Math.ceil(sortedAndFilteredData.length / pageSize));
+  // Narrowing the rows can leave the stored page past the end.
+  const currentPage = Math.min(page, pageCount - 1);
+  const pagedRows = useMemo(
+    () => sortedAndFilteredData.slice(currentPage * pageSize, (currentPage + 1) * pageSize),
+    [sortedAndFilteredData, currentPage, pageSize]
+  );
+
+  const chartRows = useMemo(
+    () => (scopeFilter ? sortedAndFilteredData.filter(item => inWatchlist(scopeFilter, item.address)) : sortedAndFilteredData),
+    [sortedAndFilteredData, scopeFilter, inWatchlist]
+  );
 
   const chartData = useMemo(() => {
-    return sortedAndFilteredData
+    return chartRows
       .slice(0, 10)
       .map(d => ({
         address: d.address ? (d.address.slice(0, 6) + '...' + d.address.slice(-4)) : 'N/A',
-        amount: Number(d.latestLgns) || 0,
+        amount: metric === 'eventCount' ? d.eventCount : amountToNumber(metricValue(d, metric), decimals),
       }));
-  }, [sortedAndFilteredData]);
+  }, [chartRows, metric, decimals]);
+
+  // Events behind the rows on screen. Snapshots saved without events only know each row's latest one.
+  const displayedEvents = useMemo(
+    () => (viewingSnapshot ? viewingSnapshot.events ?? viewingSnapshot.data.map(row => row.latestEvent) : windowEvents),
+    [viewingSnapshot, windowEvents]
+  );
+
+  // The time series follows the same rows as the chart.
+  const timeSeriesEvents = useMemo(() => {
+    const visible = new Set(chartRows.map(item => item.address));
+    return displayedEvents.filter(event => visible.has(event.address.toLowerCase()));
+  }, [displayedEvents, chartRows]);
+
+  const displayedBlockTimes = useMemo(
+    () => (viewingSnapshot ? viewingSnapshot.blockTimes ?? new Map<number, number>() : blockTimes),
+    [viewingSnapshot, blockTimes]
+  );
+
+  const formatDuration = (seconds: number) => {
+    const hours = seconds / 3600;
+    return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} h`;
+  };
 
   const safeFixed = (val: any, decimals: number = 2) => {
     const num = Number(val);
     return isNaN(num) ? "0.00" : num.toFixed(decimals);
   };
 
+  const selectedRow = useMemo(
+    () => (selectedAddress ? viewData.find(item => item.address === selectedAddress) || null : null),
+    [viewData, selectedAddress]
+  );
+
+  const toggleExpanded = (address: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(address)) next.delete(address);
+      else next.add(address);
+      return next;
+    });
+  };
+
   const handleCopy = (text: string) => {
     navigator.clipboard.writeText(text);
     setCopiedAddress(text);
     setTimeout(() => setCopiedAddress(null), 2000);
   };
 
-  const handleExportCSV = () => {
+  const handleExport = async () => {
     if (sortedAndFilteredData.length === 0) return;
-    const headers = ['Wallet Address', 'Level', 'DAO Reward', 'Spider Reward'];
-    const rows = sortedAndFilteredData.map(item => [
-      item.address, 
-      item.level, 
-      safeFixed(item.reward, 4), 
-      safeFixed(item.latestLgns, 4)
-    ]);
-    const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `lgns_distribution_${new Date().toISOString().slice(0,10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const gaps = viewingSnapshot ? viewingSnapshot.gaps : scanGaps;
+    if (gaps.length > 0 && !window.confirm(`The scan is missing ${gaps.length} block range(s). Export incomplete data anyway?`)) return;
+    const rows = sortedAndFilteredData;
+    const meta = createExportMetadata({
+      tracked: activeEvent,
+      profile: chainProfile,
+      rpcs: viewingSnapshot
+        ? viewingSnapshot.settings.rpcs || []
+        : rpcEndpoints.filter(endpoint => endpoint.healthy).map(endpoint => endpoint.url),
+      range: viewingSnapshot ? viewingSnapshot.range : actualScanRange,
+      threshold,
+      metric,
+      snapshotId: viewingSnapshot ? viewingSnapshot.id : liveSnapshotId,
+      gaps,
+      rowCount: rows.length,
+    });
+    try {
+      const file = await renderExport(exportFormat, rows, meta, { decimals, labels: addressBook.labels, memberships }, metric, activeEvent.id);
+      downloadFile(file.filename, file.content, file.mimeType);
+      setExportMessage(null);
+    } catch (err: any) {
+      setExportMessage(`Export failed: ${err.message}`);
+    }
+  };
+
+  const handleVerifyManifest = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    if (!isPayoutManifest(text)) {
+      setExportMessage(`${file.name} is not a payout manifest.`);
+      return;
+    }
+    const result = await verifyPayoutManifest(text);
+    setExportMessage(result.valid
+      ? `${file.name}: checksum OK, ${result.rows.length} payouts, blocks ${result.metadata.blocks || '?'}.`
+      : `${file.name}: checksum MISMATCH — the file was edited after export.`);
   };
 
   const saveSettings = () => {
-    localStorage.setItem('lgns_rpc', rpcUrl);
-    localStorage.setItem('lgns_range', blockRange.toString());
+    saveChainSettings(chainSettings);
+    localStorage.setItem('lgns_window', JSON.stringify(scanWindow));
     localStorage.setItem('lgns_threshold', threshold.toString());
+    localStorage.setItem('lgns_metric', metric);
     localStorage.setItem('lgns_chunk', scanChunkSize.toString());
+    localStorage.setItem('lgns_batch', rpcBatchSize.toString());
+    localStorage.setItem('lgns_inflight', rpcMaxInFlight.toString());
     processLogs();
     setShowSettings(false);
   };
 
+  const handleClearCache = async () => {
+    try {
+      await clearLogCache();
+      setCacheStats(null);
+    } catch (err) {
+      console.warn("Failed to clear log cache:", err);
+    }
+  };
+
   const getLoadingText = () => {
     switch(loadingStage) {
       case 'logs': 
         const progress = scanProgress.total > 0 ? Math.floor((scanProgress.current / scanProgress.total) * 100) : 0;
         return `Scanning Chain: ${progress}%`;
       case 'rewards': return `Rewards Sync (${rewardProgress.current}/${rewardProgress.total})`;
-      case 'analyzing': return 'AI Reasoning...';
       default: return 'Loading...';
     }
   };
 
   const SortIcon = ({ column }: { column: SortKey }) => {
-    if (sortConfig.key !== column || !sortConfig.direction) {
+    const index = sortRules.findIndex(rule => rule.key === column);
+    if (index === -1) {
       return (
         <svg className="w-3 h-3 ml-1 text-gray-300 opacity-0 group-hover:opacity-100" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
         </svg>
       );
     }
-    return sortConfig.direction === 'asc' ? (
-      <svg className="w-3 h-3 ml-1 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 15l7-7 7 7" />
-      </svg>
-    ) : (
-      <svg className="w-3 h-3 ml-1 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
-      </svg>
+    return (
+      <span className="flex items-center ml-1 text-indigo-600">
+        {sortRules[index].direction === 'asc' ? (
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 15l7-7 7 7" />
+          </svg>
+        ) : (
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        )}
+        {sortRules.length > 1 && <span className="text-[9px] font-bold">{index + 1}</span>}
+      </span>
     );
   };
 
+  const sortableHeader = "cursor-pointer hover:bg-gray-100 transition-colors group select-none";
+
   return (
     <div className="min-h-screen bg-[#f8fafc]">
       <nav className="bg-white border-b border-gray-200 sticky top-0 z-30 shadow-sm">
@@ -294,6 +842,20 @@ const App: React.FC = () => {
             <button onClick={() => setShowSettings(!showSettings)} className={`p-2 rounded-md transition-colors ${showSettings ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`} title="Config Settings">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
             </button>
+            {loading && (
+              <button onClick={cancelSync} className="px-4 py-2 rounded-md text-sm font-bold text-gray-600 border border-gray-200 hover:bg-gray-100 transition-colors" title="Stop the running sync">
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={() => setLiveMode(!liveMode)}
+              disabled={!windowFollowsHead}
+              className={`px-4 py-2 rounded-md text-sm font-bold border transition-colors flex items-center space-x-2 disabled:opacity-40 ${liveMode ? 'border-emerald-300 bg-emerald-50 text-emerald-700' : 'border-gray-200 text-gray-600 hover:bg-gray-100'}`}
+              title={windowFollowsHead ? 'Follow the chain head and merge new events as they arrive' : 'Live mode needs a scan window that ends now'}
+            >
+              <span className={`inline-block w-2 h-2 rounded-full ${liveMode && windowFollowsHead ? 'bg-emerald-500 animate-pulse' : 'bg-gray-300'}`}></span>
+              <span>Live</span>
+            </button>
             <button onClick={processLogs} disabled={loading} className="bg-indigo-600 text-white px-5 py-2 rounded-md text-sm font-bold disabled:bg-indigo-400 min-w-[150px] shadow-sm hover:bg-indigo-700 transition-all flex items-center justify-center space-x-2">
               {loading && <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>}
               <span>{loading ? getLoadingText() : 'Refresh Data'}</span>
@@ -305,29 +867,68 @@ const App: React.FC = () => {
       {showSettings && (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-4 animate-in fade-in slide-in-from-top-2 duration-300">
           <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-xl border-t-4 border-t-indigo-500">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <div className="flex flex-col space-y-1.5">
-                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">RPC Endpoint</label>
-                <input type="text" value={rpcUrl} onChange={e => setRpcUrl(e.target.value)} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">{chainProfile.name} RPC Endpoints (One per Line)</label>
+                <textarea rows={3} value={rpcList} onChange={e => updateChainSettings({ rpcs: e.target.value })} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm resize-y" />
               </div>
               <div className="flex flex-col space-y-1.5">
-                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Window (Total Blocks)</label>
-                <input type="number" value={blockRange} onChange={e => setBlockRange(Number(e.target.value))} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Scan Window</label>
+                <select value={scanWindow.preset} onChange={e => setScanWindow(prev => ({ ...prev, preset: e.target.value as WindowPreset }))} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm">
+                  {(Object.keys(WINDOW_PRESET_LABELS) as WindowPreset[]).map(preset => (
+                    <option key={preset} value={preset}>{WINDOW_PRESET_LABELS[preset]}</option>
+                  ))}
+                </select>
+                {scanWindow.preset === 'blocks' && (
+                  <>
+                    <input type="number" value={blockRange} onChange={e => updateChainSettings({ blockRange: Number(e.target.value) })} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" title="Total blocks back from the chain head" />
+                    <span className="text-[10px] text-gray-400">≈ {formatDuration(blockRange * chainProfile.blockTime)} at {chainProfile.blockTime}s/block</span>
+                  </>
+                )}
+                {scanWindow.preset === 'custom' && (
+                  <>
+                    <input type="datetime-local" value={toUtcInputValue(scanWindow.from)} onChange={e => setScanWindow(prev => ({ ...prev, from: fromUtcInputValue(e.target.value) }))} className="bg-gray-50 text-gray-900 border border-gray-300 p-2 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" title="Start (UTC, inclusive)" />
+                    <input type="datetime-local" value={toUtcInputValue(scanWindow.to)} onChange={e => setScanWindow(prev => ({ ...prev, to: fromUtcInputValue(e.target.value) }))} className="bg-gray-50 text-gray-900 border border-gray-300 p-2 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" title="End (UTC, exclusive)" />
+                  </>
+                )}
               </div>
               <div className="flex flex-col space-y-1.5">
                 <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Request Range (Chunk Size)</label>
                 <input type="number" value={scanChunkSize} onChange={e => setScanChunkSize(Number(e.target.value))} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
               </div>
               <div className="flex flex-col space-y-1.5">
-                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Min Threshold</label>
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Calls per Batch</label>
+                <input type="number" min={1} value={rpcBatchSize} onChange={e => setRpcBatchSize(Number(e.target.value))} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
+              </div>
+              <div className="flex flex-col space-y-1.5">
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Requests in Flight</label>
+                <input type="number" min={1} value={rpcMaxInFlight} onChange={e => setRpcMaxInFlight(Number(e.target.value))} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
+              </div>
+              <div className="flex flex-col space-y-1.5">
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Block Explorer</label>
+                <input type="text" value={explorerUrl} onChange={e => updateChainSettings({ explorerUrl: e.target.value })} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
+              </div>
+              <div className="flex flex-col space-y-1.5">
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Live WebSocket <span className="normal-case font-medium text-gray-400">(optional)</span></label>
+                <input type="text" value={wsUrl} onChange={e => updateChainSettings({ wsUrl: e.target.value })} placeholder="wss://… — polls over HTTP when empty" className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
+              </div>
+              <div className="flex flex-col space-y-1.5">
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Min Threshold <span className="normal-case font-medium text-gray-400">(applies instantly)</span></label>
                 <input type="number" value={threshold} onChange={e => setThreshold(Number(e.target.value))} className="bg-gray-50 text-gray-900 border border-gray-300 p-3 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full shadow-sm" />
               </div>
+              <div className="flex items-end">
+                <button onClick={handleClearCache} className="bg-white text-gray-600 border border-gray-300 w-full py-3 px-4 rounded-lg font-bold text-sm hover:bg-gray-50 shadow-sm transition-all active:scale-[0.98]" title="Forget locally cached logs">
+                  Clear Log Cache
+                </button>
+              </div>
               <div className="flex items-end">
                 <button onClick={saveSettings} className="bg-indigo-600 text-white w-full py-3 px-4 rounded-lg font-bold text-sm hover:bg-indigo-700 shadow-md transition-all active:scale-[0.98]">
                   Apply & Synchronize
                 </button>
               </div>
             </div>
+            <TrackedEventEditor events={trackedEvents} onSave={handleSaveTrackedEvents} />
+            <AddressBookPanel book={addressBook} onChange={updateAddressBook} />
           </div>
         </div>
       )}
@@ -350,6 +951,13 @@ const App: React.FC = () => {
            </div>
         )}
 
+        {scanCancelled && !loading && (
+          <div className="mb-8 bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-xl flex items-center justify-between shadow-sm">
+            <p className="text-sm font-medium">Sync cancelled. Completed chunks are cached and will be skipped when the scan resumes.</p>
+            <button onClick={processLogs} className="text-xs font-bold underline hover:no-underline">Resume Scan</button>
+          </div>
+        )}
+
         {error ? (
           <div className="bg-red-50 border border-red-200 text-red-700 p-6 rounded-xl flex items-center space-x-4 shadow-sm">
             <svg className="w-12 h-12 text-red-400" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" /></svg>
@@ -357,11 +965,45 @@ const App: React.FC = () => {
           </div>
         ) : (
           <>
+            {viewingSnapshot && (
+              <div className="mb-8 bg-indigo-50 border border-indigo-200 text-indigo-800 p-4 rounded-xl flex items-center justify-between shadow-sm">
+                <p className="text-sm font-medium">
+                  Viewing snapshot from {new Date(viewingSnapshot.createdAt).toLocaleString()} (blocks {viewingSnapshot.range.start.toLocaleString()}–{viewingSnapshot.range.end.toLocaleString()}).
+                </p>
+                <button onClick={() => setViewingSnapshot(null)} className="text-xs font-bold underline hover:no-underline">Back to Live</button>
+              </div>
+            )}
+
+            {trackedEvents.length > 1 && (
+              <div className="mb-6 flex space-x-1 border-b border-gray-200 overflow-x-auto">
+                {trackedEvents.map(event => (
+                  <button
+                    key={event.id}
+                    onClick={() => switchEvent(event.id)}
+                    className={`px-4 py-2 text-sm font-bold border-b-2 -mb-px whitespace-nowrap transition-colors ${event.id === activeEvent.id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    title={`${event.contractAddress} · ${event.chain}`}
+                  >
+                    {event.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {addressBook.watchlists.length > 0 && (
+              <div className="mb-4 flex items-center justify-end space-x-2 text-xs">
+                <span className="font-bold text-gray-500 uppercase tracking-wider">Stats & Charts Scope</span>
+                <select value={scopeFilter} onChange={e => setScopeWatchlistId(e.target.value)} className="py-1.5 px-3 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                  <option value="">All accounts</option>
+                  {addressBook.watchlists.map(list => <option key={list.id} value={list.id}>{list.name}</option>)}
+                </select>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-              <StatCard label="Active Accounts" value={stats.totalUsers} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>} />
-              <StatCard label="Total Spider Reward" value={safeFixed(stats.totalLgns)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>} />
-              <StatCard label="Avg Account Level" value={safeFixed(stats.avgLevel, 1)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>} />
-              <StatCard label="Peak Spider Output" value={safeFixed(stats.peakOutput)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-7.714 2.143L11 21l-2.286-6.857L1 12l7.714-2.143L11 3z" /></svg>} />
+              <StatCard label="Active Accounts" value={stats.totalUsers} trend={formatTrend(stats.totalUsers, trendBaseline?.totalUsers)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>} />
+              <StatCard label="Total Spider Reward" value={formatAmount(stats.totalLgns, 2, decimals)} trend={formatTrend(stats.totalLgns, trendBaseline?.totalLgns)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>} />
+              <StatCard label="Avg Account Level" value={safeFixed(stats.avgLevel, 1)} trend={formatTrend(stats.avgLevel, trendBaseline?.avgLevel)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>} />
+              <StatCard label="Peak Spider Output" value={formatAmount(stats.peakOutput, 2, decimals)} trend={formatTrend(stats.peakOutput, trendBaseline?.peakOutput)} icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-7.714 2.143L11 21l-2.286-6.857L1 12l7.714-2.143L11 3z" /></svg>} />
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -370,55 +1012,145 @@ const App: React.FC = () => {
                   <div className="px-6 py-4 bg-gray-50/50 border-b border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
                     <div className="flex items-center space-x-3">
                       <h2 className="font-bold text-gray-900">Distribution Table</h2>
-                      <button onClick={handleExportCSV} className="flex items-center space-x-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-[11px] font-bold text-gray-600 hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm active:scale-95" title="Export current view to CSV">
+                      <select value={exportFormat} onChange={e => { setExportFormat(e.target.value as ExportFormat); localStorage.setItem('lgns_export_format', e.target.value); }} className="py-1.5 px-2 border border-gray-200 rounded-lg bg-white text-[11px] font-bold text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500" title="Export format">
+                        <option value="csv">CSV (Excel)</option>
+                        <option value="json">JSON</option>
+                        <option value="ndjson">NDJSON</option>
+                        <option value="manifest" disabled={metric === 'eventCount'}>Payout manifest</option>
+                      </select>
+                      <button onClick={handleExport} className="flex items-center space-x-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-[11px] font-bold text-gray-600 hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm active:scale-95" title="Export the current view with the scan's metadata">
                         <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                        <span>Export CSV</span>
+                        <span>Export</span>
+                      </button>
+                      <input ref={manifestInput} type="file" accept=".txt,text/plain" onChange={handleVerifyManifest} className="hidden" />
+                      <button onClick={() => manifestInput.current?.click()} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-[11px] font-bold text-gray-600 hover:bg-gray-50 transition-all shadow-sm" title="Check a payout manifest's checksum">
+                        Verify Manifest
                       </button>
+                      {!viewingSnapshot && failedRewardCount > 0 && (
+                        <button onClick={retryFailedRewards} disabled={retryingRewards || loading} className="px-3 py-1.5 bg-red-50 border border-red-200 rounded-lg text-[11px] font-bold text-red-600 hover:bg-red-100 disabled:opacity-50 transition-all" title="Fetch reward data again for rows where the Ocros lookup failed">
+                          {retryingRewards ? 'Retrying…' : `Retry ${failedRewardCount} Failed`}
+                        </button>
+                      )}
                     </div>
+                    <select value={metric} onChange={e => setMetric(e.target.value as AmountMetric)} className="py-2 px-3 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500" title="Metric used for the threshold, sort and chart">
+                      {(Object.keys(METRIC_LABELS) as AmountMetric[]).map(key => (
+                        <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+                      ))}
+                    </select>
+                    <button onClick={() => setShowFilters(!showFilters)} className={`px-3 py-2 border rounded-lg text-sm font-bold transition-colors ${isFilterActive(filterSpec) ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'}`} title="Build range and address filters">
+                      Filters{isFilterActive(filterSpec) ? ' •' : ''}
+                    </button>
+                    <select value={tableFilter} onChange={e => setTableWatchlistId(e.target.value)} className="py-2 px-3 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500" title="Show only rows in a watchlist">
+                      <option value="">All rows</option>
+                      <option value={LABELED_FILTER}>Labeled only</option>
+                      {addressBook.watchlists.map(list => <option key={list.id} value={list.id}>{list.name}</option>)}
+                    </select>
                     <div className="relative flex-1 max-w-md">
                       <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none"><svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg></div>
-                      <input type="text" placeholder="Filter by address..." value={searchAddress} onChange={(e) => setSearchAddress(e.target.value)} className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg leading-5 bg-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-all" />
+                      <input type="text" placeholder="Filter by address or label..." value={searchAddress} onChange={(e) => { setSearchAddress(e.target.value); setPage(0); }} className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg leading-5 bg-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-all" />
                     </div>
                   </div>
+                  {exportMessage && (
+                    <div className="px-6 py-2 border-b border-gray-100 bg-gray-50 text-xs text-gray-600 flex items-center justify-between">
+                      <span>{exportMessage}</span>
+                      <button onClick={() => setExportMessage(null)} className="font-bold text-gray-400 hover:text-gray-600">Dismiss</button>
+                    </div>
+                  )}
+                  {showFilters && (
+                    <FilterBuilder
+                      spec={filterSpec}
+                      onChange={updateFilterSpec}
+                      presets={filterPresets}
+                      onSavePreset={saveFilterPreset}
+                      onDeletePreset={deleteFilterPreset}
+                      matchCount={sortedAndFilteredData.length}
+                      totalCount={viewData.length}
+                    />
+                  )}
                   <div className="overflow-x-auto">
                     <table className="w-full text-left text-sm border-collapse">
                       <thead className="bg-gray-50 text-gray-500 font-bold uppercase text-[10px]">
                         <tr>
-                          <th className="px-6 py-4 border-b">Full Wallet Address</th>
-                          <th className="px-4 py-4 border-b text-center cursor-pointer hover:bg-gray-100 transition-colors group select-none" onClick={() => handleSort('level')}><div className="flex items-center justify-center">Lvl <SortIcon column="level" /></div></th>
-                          <th className="px-6 py-4 border-b text-right cursor-pointer hover:bg-gray-100 transition-colors group select-none" onClick={() => handleSort('reward')}><div className="flex items-center justify-end">DAO Reward <SortIcon column="reward" /></div></th>
-                          <th className="px-6 py-4 border-b text-right cursor-pointer hover:bg-gray-100 transition-colors group select-none" onClick={() => handleSort('latestLgns')}><div className="flex items-center justify-end">Spider Reward <SortIcon column="latestLgns" /></div></th>
+                          <th className={`px-6 py-4 border-b ${sortableHeader}`} onClick={e => handleSort('address', e)} title="Shift-click to add as a secondary sort"><div className="flex items-center">Full Wallet Address <SortIcon column="address" /></div></th>
+                          <th className={`px-4 py-4 border-b ${sortableHeader}`} onClick={e => handleSort('label', e)}><div className="flex items-center">Label <SortIcon column="label" /></div></th>
+                          <th className="px-4 py-4 border-b">Watchlists</th>
+                          <th className={`px-4 py-4 border-b text-center ${sortableHeader}`} onClick={e => handleSort('level', e)}><div className="flex items-center justify-center">Lvl <SortIcon column="level" /></div></th>
+                          <th className={`px-6 py-4 border-b text-right ${sortableHeader}`} onClick={e => handleSort('reward', e)}><div className="flex items-center justify-end">DAO Reward <SortIcon column="reward" /></div></th>
+                          <th className={`px-4 py-4 border-b ${sortableHeader}`} onClick={e => handleSort('latestTx', e)} title="Sorted by when the latest event happened"><div className="flex items-center">Latest Tx <SortIcon column="latestTx" /></div></th>
+                          <th className={`px-6 py-4 border-b text-right ${sortableHeader}`} onClick={e => handleSort('metric', e)}><div className="flex items-center justify-end">Spider Reward ({METRIC_LABELS[metric]}) <SortIcon column="metric" /></div></th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-gray-100">
                         {loading && data.length === 0 ? (
-                          <tr><td colSpan={4} className="px-6 py-20 text-center text-gray-400 italic">Synchronizing network states...</td></tr>
+                          <tr><td colSpan={7} className="px-6 py-20 text-center text-gray-400 italic">Synchronizing network states...</td></tr>
                         ) : sortedAndFilteredData.length === 0 ? (
-                          <tr><td colSpan={4} className="px-6 py-20 text-center text-gray-400 italic">No records matching criteria.</td></tr>
+                          <tr><td colSpan={7} className="px-6 py-20 text-center text-gray-400 italic">No records matching criteria.</td></tr>
                         ) : (
-                          sortedAndFilteredData.map((item) => (
-                            <tr key={item.address} className="hover:bg-indigo-50/30 transition-colors group">
+                          pagedRows.map((item) => (
+                            <React.Fragment key={item.address}>
+                            <tr onClick={() => setSelectedAddress(item.address)} className={`transition-colors group cursor-pointer ${item.error ? 'bg-red-50/40 hover:bg-red-50' : 'hover:bg-indigo-50/30'}`} title="Open address detail">
                               <td className="px-6 py-4 font-mono text-[13px] leading-relaxed">
                                 <div className="flex items-center space-x-3">
+                                  <button onClick={(e) => { e.stopPropagation(); toggleExpanded(item.address); }} className="flex-shrink-0 p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white" title="Show Ocros reward records">
+                                    <svg className={`w-3.5 h-3.5 transition-transform ${expandedRows.has(item.address) ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
+                                  </button>
                                   <span className="text-gray-900 break-all select-all">{item.address}</span>
-                                  <button onClick={() => handleCopy(item.address)} className="flex-shrink-0 p-1.5 rounded bg-gray-50 text-gray-400 hover:text-indigo-600 hover:bg-white border border-transparent hover:border-indigo-100 transition-all shadow-sm group-hover:opacity-100 opacity-0 md:opacity-100" title="Copy Address">
+                                  {(item.rewardSchemaIssues?.length ?? 0) > 0 && (
+                                    <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[10px] font-bold font-sans" title={item.rewardSchemaIssues!.join('\n')}>Schema</span>
+                                  )}
+                                  <button onClick={(e) => { e.stopPropagation(); handleCopy(item.address); }} className="flex-shrink-0 p-1.5 rounded bg-gray-50 text-gray-400 hover:text-indigo-600 hover:bg-white border border-transparent hover:border-indigo-100 transition-all shadow-sm group-hover:opacity-100 opacity-0 md:opacity-100" title="Copy Address">
                                     {copiedAddress === item.address ? <svg className="w-3.5 h-3.5 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M5 13l4 4L19 7" /></svg> : <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>}
                                   </button>
                                 </div>
                               </td>
-                              <td className="px-4 py-4 text-center"><span className={`px-2.5 py-1 rounded text-[11px] font-bold ${item.level > 0 ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}>L{item.level}</span></td>
-                              <td className="px-6 py-4 text-right font-bold text-emerald-600 tabular-nums">{safeFixed(item.reward)}</td>
-                              <td className="px-6 py-4 text-right font-bold text-gray-900 tabular-nums">{safeFixed(item.latestLgns)}</td>
+                              <td className="px-4 py-4 text-xs text-gray-700">{addressBook.labels[item.address] || <span className="text-gray-300">—</span>}</td>
+                              <td className="px-4 py-4">
+                                <div className="flex flex-wrap gap-1">
+                                  {(memberships.get(item.address) || []).map(name => (
+                                    <span key={name} className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-[10px] font-bold whitespace-nowrap">{name}</span>
+                                  ))}
+                                </div>
+                              </td>
+                              {item.isFetchingReward ? (
+                                <td colSpan={2} className="px-6 py-4 text-center text-gray-400 italic text-xs">Fetching…</td>
+                              ) : item.error ? (
+                                <td colSpan={2} className="px-6 py-4 text-center" title={item.error}>
+                                  <span className="px-2.5 py-1 rounded text-[11px] font-bold bg-red-100 text-red-700">Reward lookup failed</span>
+                                </td>
+                              ) : (
+                                <>
+                                  <td className="px-4 py-4 text-center"><span className={`px-2.5 py-1 rounded text-[11px] font-bold ${item.level > 0 ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}>L{item.level}</span></td>
+                                  <td className="px-6 py-4 text-right font-bold text-emerald-600 tabular-nums">{safeFixed(item.reward)}</td>
+                                </>
+                              )}
+                              <td className="px-4 py-4 font-mono text-[11px]">
+                                <a href={`${explorerUrl.replace(/\/+$/, '')}/tx/${item.latestTxHash}`} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className="text-indigo-600 hover:underline" title={`Block ${item.latestEvent.blockNumber.toLocaleString()}`}>
+                                  {item.latestTxHash.slice(0, 8)}…{item.latestTxHash.slice(-6)}
+                                </a>
+                              </td>
+                              <td className="px-6 py-4 text-right font-bold text-gray-900 tabular-nums" title={`${item.eventCount} event(s), blocks ${item.firstBlock.toLocaleString()}–${item.lastBlock.toLocaleString()}`}>{formatMetric(item, metric, decimals)}</td>
                             </tr>
+                            {expandedRows.has(item.address) && <RewardRecordsRow row={item} colSpan={7} />}
+                            </React.Fragment>
                           ))
                         )}
                       </tbody>
                     </table>
                   </div>
+                  {sortedAndFilteredData.length > 0 && (
+                    <Pagination
+                      page={currentPage}
+                      pageSize={pageSize}
+                      total={sortedAndFilteredData.length}
+                      pageSizes={PAGE_SIZES}
+                      onPageChange={setPage}
+                      onPageSizeChange={size => { setPageSize(size); setPage(0); }}
+                    />
+                  )}
                 </div>
 
                 <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
-                  <h3 className="font-bold text-gray-900 mb-6">Top 10 Performance Profile</h3>
+                  <h3 className="font-bold text-gray-900 mb-6">Top 10 Performance Profile <span className="text-xs font-medium text-gray-400">({METRIC_LABELS[metric]})</span></h3>
                   <div className="h-64 w-full">
                     {chartData.length > 0 ? (
                       <ResponsiveContainer width="100%" height="100%">
@@ -433,56 +1165,143 @@ const App: React.FC = () => {
                     ) : <div className="h-full flex items-center justify-center text-gray-400 italic text-sm">No data matching filters.</div>}
                   </div>
                 </div>
+
+                <TimeSeriesPanel events={timeSeriesEvents} blockTimes={displayedBlockTimes} decimals={decimals} range={viewingSnapshot ? viewingSnapshot.range : actualScanRange} />
               </div>
 
               <div className="space-y-6">
-                <div className="bg-indigo-600 rounded-xl p-6 text-white shadow-lg min-h-[300px] flex flex-col">
-                  <div className="flex items-center space-x-2 mb-4">
-                    <svg className="w-5 h-5 text-indigo-200" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.364-6.364l-.707-.707M6.343 17.657l-.707.707m12.728 0l-.707-.707M12 5a7 7 0 00-7 7c0 1.603.546 3.08 1.464 4.242.484.612.907 1.251 1.25 1.932A2 2 0 009.52 20h4.96a2 2 0 001.763-1.17c.343-.68.766-1.32 1.25-1.932A7.003 7.003 0 0012 5z" /></svg>
-                    <h3 className="font-bold">AI Intelligence</h3>
-                  </div>
-                  <div className="flex-1 overflow-y-auto text-sm leading-relaxed text-indigo-50 scrollbar-hide">
-                    {isAnalyzing ? (
-                      <div className="flex flex-col items-center justify-center h-full space-y-3 animate-pulse">
-                        <div className="flex space-x-1"><div className="w-2 h-2 bg-white rounded-full"></div><div className="w-2 h-2 bg-white rounded-full"></div><div className="w-2 h-2 bg-white rounded-full"></div></div>
-                        <span className="text-[10px] font-bold uppercase tracking-widest text-indigo-200">Processing Insights</span>
-                      </div>
-                    ) : <div className="prose prose-sm prose-invert max-w-none">{aiAnalysis || "Sync data to generate automated report."}</div>}
-                  </div>
-                </div>
+                <AnalysisPanel
+                  settings={analysisSettings}
+                  onSettingsChange={updateAnalysisSettings}
+                  result={analysis}
+                  analyzing={isAnalyzing}
+                  error={analysisError}
+                  canAnalyze={!loading && viewData.length > 0}
+                  onAnalyze={runAnalysis}
+                  onSelectAddress={setSelectedAddress}
+                >
+                  <DatasetChat
+                    key={activeEvent.id}
+                    rows={viewData}
+                    decimals={decimals}
+                    labels={addressBook.labels}
+                    model={analysisSettings.model}
+                    available={analysisSettings.provider === 'gemini'}
+                    onSelectAddress={setSelectedAddress}
+                    onShowInTable={showAddressesInTable}
+                  />
+                </AnalysisPanel>
 
                 <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
                   <h3 className="text-[10px] uppercase font-bold text-gray-400 mb-4 tracking-widest">Network Telemetry</h3>
                   <div className="space-y-4 text-xs">
-                    <div className="flex flex-col space-y-1">
-                      <span className="text-gray-400 font-medium">RPC Source</span>
-                      <span className="font-mono text-indigo-600 break-all bg-indigo-50/50 p-2 rounded border border-indigo-100/50" title={rpcUrl}>{rpcUrl}</span>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-500 font-medium">Network</span>
+                      <span className="font-bold text-gray-900">{chainProfile.name} <span className="font-mono text-gray-400">#{chainProfile.chainId}</span></span>
+                    </div>
+                    <div className="flex flex-col space-y-1 border-t border-gray-100 pt-3">
+                      <span className="text-gray-400 font-medium">RPC Sources</span>
+                      {rpcEndpoints.length > 0 ? <RpcEndpointList endpoints={rpcEndpoints} /> : <span className="text-gray-400 italic">Not probed yet</span>}
                     </div>
                     <div className="grid grid-cols-2 gap-2 border-t border-gray-100 pt-3">
                       <div className="flex flex-col space-y-0.5">
                         <span className="text-gray-400 font-medium">Start Block</span>
                         <span className="font-bold text-gray-900">{actualScanRange?.start?.toLocaleString() || '---'}</span>
+                        <span className="text-[10px] text-gray-400 font-mono">{formatUtc(actualScanRange?.startTime ?? null)}</span>
                       </div>
                       <div className="flex flex-col space-y-0.5 text-right">
                         <span className="text-gray-400 font-medium">End Block</span>
                         <span className="font-bold text-gray-900">{actualScanRange?.end?.toLocaleString() || '---'}</span>
+                        <span className="text-[10px] text-gray-400 font-mono">{formatUtc(actualScanRange?.endTime ?? null)}</span>
                       </div>
                     </div>
                     <div className="flex justify-between items-center border-t border-gray-100 pt-3">
                       <span className="text-gray-500 font-medium">Total Window</span>
-                      <span className="font-bold text-gray-900">{blockRange.toLocaleString()} Blocks</span>
+                      <span className="font-bold text-gray-900 text-right" title={`${chainProfile.blockTime}s per block`}>
+                        {WINDOW_PRESET_LABELS[scanWindow.preset]}
+                        {actualScanRange && <span className="block text-[10px] font-medium text-gray-400">{(actualScanRange.end - actualScanRange.start + 1).toLocaleString()} blocks{actualScanRange.startTime !== null && actualScanRange.endTime !== null && ` · ≈ ${formatDuration(actualScanRange.endTime - actualScanRange.startTime)}`}</span>}
+                      </span>
                     </div>
                     <div className="flex justify-between items-center border-t border-gray-100 pt-3">
                       <span className="text-gray-500 font-medium">Batch Size (Chunk)</span>
                       <span className="font-bold text-gray-900">{scanChunkSize.toLocaleString()}</span>
                     </div>
+                    <div className="flex justify-between items-center border-t border-gray-100 pt-3">
+                      <span className="text-gray-500 font-medium">Adaptive Chunk (Settled)</span>
+                      <span className="font-bold text-gray-900">{effectiveChunkSize?.toLocaleString() || '---'}</span>
+                    </div>
+                    <div className="flex justify-between items-center border-t border-gray-100 pt-3">
+                      <span className="text-gray-500 font-medium">Cached / Fetched</span>
+                      <span className="font-bold text-gray-900">{cacheStats ? `${cacheStats.cached.toLocaleString()} / ${cacheStats.fetched.toLocaleString()}` : '---'}</span>
+                    </div>
+                    <div className="flex flex-col space-y-1 border-t border-gray-100 pt-3">
+                      <span className="text-gray-500 font-medium">Scan Gaps</span>
+                      {scanGaps.length === 0 ? (
+                        <span className="font-bold text-emerald-600">None</span>
+                      ) : (
+                        <ul className="font-mono text-red-600 bg-red-50/50 p-2 rounded border border-red-100/50 space-y-0.5">
+                          {scanGaps.map(([from, to]) => (
+                            <li key={from}>{from.toLocaleString()} – {to.toLocaleString()}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
                   </div>
                 </div>
+
+                {(liveMode || liveFeed.length > 0) && (
+                  <LiveFeed
+                    entries={liveFeed}
+                    status={liveStatus}
+                    active={liveMode && windowFollowsHead && !loading}
+                    decimals={decimals}
+                    explorerUrl={explorerUrl}
+                    onSelectAddress={setSelectedAddress}
+                  />
+                )}
+
+                <AlertPanel
+                  settings={alertSettings}
+                  onSettingsChange={updateAlertSettings}
+                  log={alertLog}
+                  onClearLog={() => { setAlertLog([]); saveAlertLog([]); }}
+                  source={{ chain: chainProfile.name, eventName: activeEvent.name }}
+                />
+
+                <SnapshotPanel
+                  snapshots={eventSnapshots}
+                  viewingId={viewingSnapshot?.id ?? null}
+                  onOpen={openSnapshot}
+                  onBackToLive={() => setViewingSnapshot(null)}
+                  onDelete={removeSnapshot}
+                />
+
+                <ReconciliationPanel
+                  rows={viewingSnapshot ? viewingSnapshot.data : data}
+                  inScope={passesThreshold}
+                  decimals={decimals}
+                  metric={metric}
+                  onSelectAddress={setSelectedAddress}
+                />
               </div>
             </div>
           </>
         )}
       </main>
+
+      {selectedRow && (
+        <AddressDetailPanel
+          row={selectedRow}
+          events={displayedEvents}
+          explorerUrl={explorerUrl}
+          decimals={decimals}
+          label={addressBook.labels[selectedRow.address] || ''}
+          watchlists={addressBook.watchlists}
+          onLabelChange={label => updateAddressBook(setLabel(addressBook, selectedRow.address, label))}
+          onToggleWatchlist={id => updateAddressBook(toggleWatchlistAddress(addressBook, id, selectedRow.address))}
+          onClose={() => setSelectedAddress(null)}
+        />
+      )}
     </div>
   );
 };
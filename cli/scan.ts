@@ -0,0 +1,161 @@
+// Headless scan runner for cron jobs and CI: scans a window, fetches rewards and writes one export.
+// Build and run with `npm run scan -- --help`. Exit codes: 0 complete, 1 failed, 2 partial scan (gaps).
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { DEFAULT_MIN_THRESHOLD, DEFAULT_RPC_BATCH_SIZE, DEFAULT_RPC_MAX_IN_FLIGHT, DEFAULT_SCAN_CHUNK, DEFAULT_WINDOW_HOURS } from '../constants.ts';
+import { ExportFormat, ScanWindow, TrackedEvent, WindowPreset } from '../types.ts';
+import { blocksForHours, getChainProfile } from '../services/chainRegistry.ts';
+import { DEFAULT_TRACKED_EVENT } from '../services/eventRegistry.ts';
+import { runScanPipeline } from '../services/scanPipeline.ts';
+import { createExportMetadata, renderExport } from '../services/exportService.ts';
+import { AmountMetric, METRIC_LABELS, metricValue } from '../utils/aggregation.ts';
+import { WINDOW_PRESET_LABELS } from '../utils/timeWindow.ts';
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson', 'manifest'];
+
+const USAGE = `Usage: npm run scan -- [options]
+
+  --chain <key>          Chain profile when no --event file is given (default: the event's chain)
+  --rpc <url>            RPC endpoint; repeat or comma-separate for failover (default: chain default)
+  --event <file>         Tracked event definition as JSON (default: LGNS Output)
+  --window <preset>      ${Object.keys(WINDOW_PRESET_LABELS).join(' | ')} (default: blocks)
+  --blocks <n>           Window length for --window blocks (default: ${DEFAULT_WINDOW_HOURS} hours of blocks)
+  --from <iso>           Custom window start, UTC (implies --window custom)
+  --to <iso>             Custom window end, exclusive, UTC
+  --threshold <n>        Minimum metric value in LGNS, or events for eventCount (default: ${DEFAULT_MIN_THRESHOLD})
+  --metric <metric>      ${Object.keys(METRIC_LABELS).join(' | ')} (default: totalLgns)
+  --format <format>      ${EXPORT_FORMATS.join(' | ')} (default: csv)
+  --out <file>           Output path (default: the dashboard's export file name)
+  --chunk <n>            Initial eth_getLogs block range (default: ${DEFAULT_SCAN_CHUNK})
+  --batch <n>            eth_getLogs calls per JSON-RPC batch (default: ${DEFAULT_RPC_BATCH_SIZE})
+  --in-flight <n>        Concurrent HTTP requests (default: ${DEFAULT_RPC_MAX_IN_FLIGHT})
+  --quiet                Only print errors
+  --help                 Show this message`;
+
+const fail = (message: string): never => {
+  throw new Error(message);
+};
+
+const positive = (value: string | undefined, flag: string, fallback: number) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) fail(`--${flag} must be a positive integer, got "${value}".`);
+  return parsed;
+};
+
+const isoSeconds = (value: string, flag: string) => {
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) fail(`--${flag} is not a valid date: "${value}".`);
+  return Math.floor(ms / 1000);
+};
+
+const main = async (): Promise<number> => {
+  const { values } = parseArgs({
+    options: {
+      chain: { type: 'string' },
+      rpc: { type: 'string', multiple: true },
+      event: { type: 'string' },
+      window: { type: 'string' },
+      blocks: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      threshold: { type: 'string' },
+      metric: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      chunk: { type: 'string' },
+      batch: { type: 'string' },
+      'in-flight': { type: 'string' },
+      quiet: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const log = (message: string) => { if (!values.quiet) console.error(message); };
+
+  const tracked: TrackedEvent = values.event
+    ? JSON.parse(readFileSync(values.event, 'utf8'))
+    : { ...DEFAULT_TRACKED_EVENT, chain: values.chain || DEFAULT_TRACKED_EVENT.chain };
+  const profile = getChainProfile(tracked.chain);
+
+  const rpcs = (values.rpc || [profile.defaultRpc])
+    .flatMap(entry => entry.split(','))
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  const preset = (values.window || (values.from ? 'custom' : 'blocks')) as WindowPreset;
+  if (!Object.hasOwn(WINDOW_PRESET_LABELS, preset)) fail(`Unknown --window "${preset}".`);
+  const window: ScanWindow = { preset };
+  if (preset === 'custom') {
+    if (!values.from || !values.to) fail('--window custom needs both --from and --to.');
+    window.from = isoSeconds(values.from, 'from');
+    window.to = isoSeconds(values.to, 'to');
+    if (window.to <= window.from) fail('--to must be after --from.');
+  }
+
+  const metric = (values.metric || 'totalLgns') as AmountMetric;
+  if (!Object.hasOwn(METRIC_LABELS, metric)) fail(`Unknown --metric "${metric}".`);
+  const format = (values.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) fail(`Unknown --format "${format}".`);
+  const threshold = values.threshold === undefined ? DEFAULT_MIN_THRESHOLD : Number(values.threshold);
+  if (!Number.isFinite(threshold) || threshold < 0) fail(`--threshold must be a non-negative number, got "${values.threshold}".`);
+
+  const scan = await runScanPipeline({
+    tracked,
+    profile,
+    rpcs,
+    window,
+    blockCount: positive(values.blocks, 'blocks', blocksForHours(profile, DEFAULT_WINDOW_HOURS)),
+    chunkSize: positive(values.chunk, 'chunk', DEFAULT_SCAN_CHUNK),
+    batchSize: positive(values.batch, 'batch', DEFAULT_RPC_BATCH_SIZE),
+    maxInFlight: positive(values['in-flight'], 'in-flight', DEFAULT_RPC_MAX_IN_FLIGHT),
+    threshold,
+    metric,
+    sampleTimes: false,
+    onEndpoints: endpoints => {
+      const healthy = endpoints.filter(endpoint => endpoint.healthy).length;
+      log(`RPC: ${healthy}/${endpoints.length} endpoint(s) healthy`);
+    },
+    onRange: range => log(`Window: blocks ${range.start}-${range.end}`),
+    onStage: stage => log(stage === 'logs' ? `Scanning ${tracked.name} on ${profile.name}...` : 'Fetching rewards...'),
+  });
+
+  const rows = [...scan.results].sort((a, b) => {
+    const diff = metricValue(b, metric) - metricValue(a, metric);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+  const meta = createExportMetadata({
+    tracked,
+    profile,
+    rpcs: scan.rpcs,
+    range: scan.range,
+    threshold,
+    metric,
+    gaps: scan.gaps,
+    rowCount: rows.length,
+  });
+  // No address book in headless runs, so exports carry no labels or group memberships.
+  const file = await renderExport(format, rows, meta, { decimals: tracked.decimals, labels: {}, memberships: new Map<string, string[]>() }, metric, tracked.id);
+  const out = values.out || file.filename;
+  writeFileSync(out, file.content);
+
+  const failedRewards = rows.filter(row => row.error).length;
+  log(`Wrote ${rows.length} row(s) to ${out} (${scan.events.length} events, ${failedRewards} reward lookup(s) failed)`);
+  if (scan.gaps.length > 0) {
+    console.error(`Partial scan: ${scan.gaps.length} block range(s) could not be fetched: ${scan.gaps.map(([from, to]) => `${from}-${to}`).join(', ')}`);
+    return 2;
+  }
+  return 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(`Scan failed: ${error.message || error}`);
+    process.exitCode = 1;
+  }
+);
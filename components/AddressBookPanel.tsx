@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { AddressBook } from '../types.ts';
+import {
+  createWatchlist,
+  importAddressBook,
+  exportAddressBookJson,
+  exportAddressBookCsv
+} from '../services/addressBookService.ts';
+import { downloadFile } from '../utils/download.ts';
+
+interface AddressBookPanelProps {
+  book: AddressBook;
+  onChange: (book: AddressBook) => void;
+}
+
+const inputClass = "bg-gray-50 text-gray-900 border border-gray-300 p-2 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full";
+
+const AddressBookPanel: React.FC<AddressBookPanelProps> = ({ book, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addWatchlist = () => {
+    if (!newName.trim()) return;
+    onChange({ ...book, watchlists: [...book.watchlists, createWatchlist(newName.trim())] });
+    setNewName('');
+  };
+
+  const renameWatchlist = (id: string, name: string) => {
+    onChange({ ...book, watchlists: book.watchlists.map(list => (list.id === id ? { ...list, name } : list)) });
+  };
+
+  const removeWatchlist = (id: string) => {
+    onChange({ ...book, watchlists: book.watchlists.filter(list => list.id !== id) });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const merged = importAddressBook(book, await file.text());
+      onChange(merged);
+      setMessage(`Imported ${file.name}: ${Object.keys(merged.labels).length} labels, ${merged.watchlists.length} watchlists.`);
+    } catch (error: any) {
+      setMessage(`Import failed: ${error.message}`);
+    }
+  };
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="border-t border-gray-100 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+          Watchlists & Labels <span className="normal-case font-medium text-gray-400">({Object.keys(book.labels).length} labeled addresses)</span>
+        </h3>
+        <div className="flex space-x-2">
+          <input ref={fileInput} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInput.current?.click()} className="px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-50">Import</button>
+          <button onClick={() => downloadFile(`lgns_address_book_${stamp}.json`, exportAddressBookJson(book), 'application/json')} className="px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-50">Export JSON</button>
+          <button onClick={() => downloadFile(`lgns_address_book_${stamp}.csv`, exportAddressBookCsv(book), 'text/csv;charset=utf-8;')} className="px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-50">Export CSV</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {book.watchlists.map(list => (
+          <div key={list.id} className="flex items-center space-x-2 p-2 rounded-lg border border-gray-200 bg-gray-50/50">
+            <input className={inputClass} value={list.name} onChange={e => renameWatchlist(list.id, e.target.value)} title="Watchlist name" />
+            <span className="text-[10px] text-gray-400 whitespace-nowrap">{list.addresses.length} addr</span>
+            <button onClick={() => removeWatchlist(list.id)} className="text-xs font-bold text-red-500 hover:text-red-700">Remove</button>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2 p-2">
+          <input className={inputClass} value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && addWatchlist()} placeholder="New watchlist name" />
+          <button onClick={addWatchlist} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 whitespace-nowrap">Add</button>
+        </div>
+      </div>
+      <p className="mt-2 text-[10px] text-gray-400">Labels and watchlist membership are edited from the address detail panel.</p>
+
+      {message && <p className="mt-2 text-xs text-gray-600">{message}</p>}
+    </div>
+  );
+};
+
+export default AddressBookPanel;
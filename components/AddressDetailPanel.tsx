@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LGNSEvent, MergedData, UserRewardData, Watchlist } from '../types.ts';
+import { fetchRewards } from '../services/ocrosService.ts';
+import { formatAmount, amountToNumber } from '../utils/amount.ts';
+
+interface AddressDetailPanelProps {
+  row: MergedData;
+  events: LGNSEvent[];
+  explorerUrl: string;
+  decimals: number;
+  label: string;
+  watchlists: Watchlist[];
+  onLabelChange: (label: string) => void;
+  onToggleWatchlist: (watchlistId: string) => void;
+  onClose: () => void;
+}
+
+const AddressDetailPanel: React.FC<AddressDetailPanelProps> = ({
+  row,
+  events,
+  explorerUrl,
+  decimals,
+  label,
+  watchlists,
+  onLabelChange,
+  onToggleWatchlist,
+  onClose
+}) => {
+  const [rewards, setRewards] = useState<UserRewardData | null>(null);
+  const [loadingRewards, setLoadingRewards] = useState(true);
+  const [rewardError, setRewardError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingRewards(true);
+    setRewardError(null);
+    fetchRewards(row.address)
+      .then(result => { if (!cancelled) setRewards(result); })
+      .catch(error => { if (!cancelled) setRewardError(error.message); })
+      .finally(() => { if (!cancelled) setLoadingRewards(false); });
+    return () => { cancelled = true; };
+  }, [row.address]);
+
+  const history = useMemo(() => events
+    .filter(event => event.address.toLowerCase() === row.address)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex), [events, row.address]);
+
+  // Several events can land in the same block, so the chart sums per block.
+  const perBlock = useMemo(() => {
+    const totals = new Map<number, bigint>();
+    history.forEach(event => totals.set(event.blockNumber, (totals.get(event.blockNumber) ?? 0n) + event.amount));
+    return Array.from(totals.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([block, amount]) => ({ block, amount: amountToNumber(amount, decimals) }));
+  }, [history, decimals]);
+
+  const explorerBase = explorerUrl.replace(/\/+$/, '');
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-gray-900/30" onClick={onClose}>
+      <div className="w-full max-w-2xl h-full bg-white shadow-2xl overflow-y-auto animate-in slide-in-from-right duration-300" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex items-start justify-between sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="font-bold text-gray-900">Address Detail</h2>
+            <a href={`${explorerBase}/address/${row.address}`} target="_blank" rel="noopener noreferrer" className="font-mono text-[13px] text-indigo-600 break-all hover:underline">{row.address}</a>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-md text-gray-500 hover:bg-gray-100" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-3 text-xs">
+            <input
+              type="text"
+              value={label}
+              onChange={e => onLabelChange(e.target.value)}
+              placeholder="Add a label, e.g. team treasury"
+              className="w-full bg-gray-50 text-gray-900 border border-gray-300 p-2 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+            {watchlists.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {watchlists.map(list => {
+                  const member = list.addresses.includes(row.address);
+                  return (
+                    <button
+                      key={list.id}
+                      onClick={() => onToggleWatchlist(list.id)}
+                      className={`px-2.5 py-1 rounded-full border font-bold transition-colors ${member ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-300 text-gray-500 hover:bg-gray-50'}`}
+                      title={member ? 'Remove from watchlist' : 'Add to watchlist'}
+                    >
+                      {member ? '✓ ' : '+ '}{list.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-400 font-medium">Ocros Level</p>
+              <p className="font-bold text-gray-900 text-lg" title={rewardError || undefined}>{loadingRewards ? '…' : rewardError ? <span className="text-red-600">Failed</span> : `L${rewards?.level ?? row.level}`}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-400 font-medium">DAO Reward</p>
+              <p className="font-bold text-emerald-600 text-lg" title={rewardError || undefined}>{loadingRewards ? '…' : rewardError ? <span className="text-red-600">Failed</span> : (rewards?.reward ?? row.reward).toFixed(2)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-400 font-medium">Total Output</p>
+              <p className="font-bold text-gray-900 text-lg">{formatAmount(row.totalLgns, 2, decimals)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-400 font-medium">Events</p>
+              <p className="font-bold text-gray-900 text-lg">{row.eventCount}</p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] uppercase font-bold text-gray-400 mb-3 tracking-widest">Output per Block</h3>
+            <div className="h-48 w-full">
+              {perBlock.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={perBlock}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="block" axisLine={false} tickLine={false} fontSize={10} />
+                    <YAxis axisLine={false} tickLine={false} fontSize={10} />
+                    <Tooltip cursor={{fill: '#f8fafc'}} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+                    <Bar dataKey="amount" fill="#4f46e5" radius={[4,4,0,0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : <div className="h-full flex items-center justify-center text-gray-400 italic text-sm">No events in the scanned window.</div>}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] uppercase font-bold text-gray-400 mb-3 tracking-widest">Event History ({history.length})</h3>
+            <table className="w-full text-left text-xs border-collapse">
+              <thead className="bg-gray-50 text-gray-500 font-bold uppercase text-[10px]">
+                <tr>
+                  <th className="px-3 py-2 border-b">Block</th>
+                  <th className="px-3 py-2 border-b">Transaction</th>
+                  <th className="px-3 py-2 border-b text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {history.map(event => (
+                  <tr key={`${event.transactionHash}-${event.logIndex}`} className="hover:bg-indigo-50/30">
+                    <td className="px-3 py-2 tabular-nums">{event.blockNumber.toLocaleString()}</td>
+                    <td className="px-3 py-2 font-mono">
+                      <a href={`${explorerBase}/tx/${event.transactionHash}`} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">
+                        {event.transactionHash.slice(0, 10)}…{event.transactionHash.slice(-8)}
+                      </a>
+                    </td>
+                    <td className="px-3 py-2 text-right font-bold tabular-nums">{formatAmount(event.amount, 4, decimals)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AddressDetailPanel;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { AlertEntry, AlertRule, AlertSettings } from '../types.ts';
+import { ALERT_RULE_LABELS } from '../utils/alertRules.ts';
+import { AlertSource, sendTestWebhook } from '../services/alertService.ts';
+
+interface AlertPanelProps {
+  settings: AlertSettings;
+  onSettingsChange: (settings: AlertSettings) => void;
+  log: AlertEntry[];
+  onClearLog: () => void;
+  source: AlertSource;
+}
+
+const inputClass = "p-1.5 border border-gray-300 rounded-lg bg-white text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const AlertPanel: React.FC<AlertPanelProps> = ({ settings, onSettingsChange, log, onClearLog, source }) => {
+  const [showRules, setShowRules] = useState(false);
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const notificationsSupported = typeof Notification !== 'undefined';
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    onSettingsChange({ ...settings, rules: settings.rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)) });
+  };
+
+  const toggleNotifications = async () => {
+    if (settings.notifications) {
+      onSettingsChange({ ...settings, notifications: false });
+      return;
+    }
+    const permission = await Notification.requestPermission();
+    onSettingsChange({ ...settings, notifications: permission === 'granted' });
+    if (permission !== 'granted') setTestResult('Notifications were blocked by the browser.');
+  };
+
+  const testWebhook = async () => {
+    setTestResult('Sending…');
+    try {
+      await sendTestWebhook(settings.webhookUrl.trim(), source);
+      setTestResult('Test alert delivered.');
+    } catch (error: any) {
+      setTestResult(`Test failed: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-[10px] uppercase font-bold text-gray-400 tracking-widest">
+          Alerts <span className="normal-case font-medium">({settings.rules.filter(rule => rule.enabled).length} active)</span>
+        </h3>
+        <button onClick={() => setShowRules(!showRules)} className="text-[10px] font-bold text-indigo-600 underline hover:no-underline">
+          {showRules ? 'Hide Rules' : 'Edit Rules'}
+        </button>
+      </div>
+
+      {showRules && (
+        <div className="space-y-3 text-xs mb-4 pb-4 border-b border-gray-100">
+          {settings.rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-2">
+              <label className="flex items-center space-x-2 text-gray-600">
+                <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                <span>{ALERT_RULE_LABELS[rule.kind]}</span>
+              </label>
+              {rule.kind !== 'scanGaps' && (
+                <input type="number" min={0} value={rule.value} onChange={e => updateRule(rule.id, { value: Number(e.target.value) })} className={`${inputClass} w-20 text-right`} />
+              )}
+            </div>
+          ))}
+          <label className="flex items-center space-x-2 text-gray-600">
+            <input type="checkbox" checked={settings.notifications} disabled={!notificationsSupported} onChange={toggleNotifications} className="rounded text-indigo-600 focus:ring-indigo-500" />
+            <span>Browser notifications{!notificationsSupported && ' (unsupported)'}</span>
+          </label>
+          <div className="space-y-1">
+            <span className="block text-gray-500 font-medium">Webhook URL (optional)</span>
+            <div className="flex space-x-2">
+              <input type="url" value={settings.webhookUrl} onChange={e => onSettingsChange({ ...settings, webhookUrl: e.target.value })} placeholder="http://localhost:8787/alerts" className={`${inputClass} flex-1 font-mono`} />
+              <button onClick={testWebhook} disabled={!settings.webhookUrl.trim()} className="px-3 py-1.5 border border-gray-300 rounded-lg font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-40">Test</button>
+            </div>
+          </div>
+          {testResult && <p className="text-gray-500">{testResult}</p>}
+        </div>
+      )}
+
+      {log.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">No alerts yet. Rules run after every sync and live update.</p>
+      ) : (
+        <>
+          <ul className="max-h-64 overflow-y-auto space-y-1.5 text-xs">
+            {log.map(entry => (
+              <li key={`${entry.fingerprint}:${entry.firedAt}`} className="p-2 rounded border border-amber-100 bg-amber-50/50">
+                <div className="flex justify-between">
+                  <span className="font-bold text-amber-800">{entry.title}</span>
+                  <span className="text-[10px] text-gray-400">{new Date(entry.firedAt).toLocaleString()}</span>
+                </div>
+                <p className="text-gray-600">{entry.message}</p>
+                {entry.webhookError && <p className="text-[10px] text-red-600">Webhook: {entry.webhookError}</p>}
+              </li>
+            ))}
+          </ul>
+          <button onClick={onClearLog} className="mt-2 text-[10px] font-bold text-gray-400 hover:text-red-500">Clear Log</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AlertPanel;
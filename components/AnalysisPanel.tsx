@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AnalysisProviderKind, AnalysisResult, AnalysisSettings, FindingSeverity } from '../types.ts';
+import { ANALYSIS_PROVIDER_LABELS } from '../services/analysisService.ts';
+import { DEFAULT_GEMINI_MODEL, DEFAULT_OPENAI_MODEL } from '../constants.ts';
+
+interface AnalysisPanelProps {
+  settings: AnalysisSettings;
+  onSettingsChange: (settings: AnalysisSettings) => void;
+  result: AnalysisResult | null;
+  analyzing: boolean;
+  error: string | null;
+  /** False while there is nothing to analyse, e.g. during a sync. */
+  canAnalyze: boolean;
+  onAnalyze: () => void;
+  onSelectAddress: (address: string) => void;
+  /** Rendered below the report, e.g. the dataset chat. */
+  children?: React.ReactNode;
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  info: 'bg-white/10 border-white/10',
+  notice: 'bg-amber-300/20 border-amber-200/30',
+  warning: 'bg-red-400/25 border-red-200/40',
+};
+
+const inputClass = "w-full p-1.5 rounded-lg bg-indigo-700/60 border border-indigo-400/40 text-xs text-white placeholder-indigo-300 focus:outline-none focus:ring-2 focus:ring-white/40";
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ settings, onSettingsChange, result, analyzing, error, canAnalyze, onAnalyze, onSelectAddress, children }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const enabled = settings.provider !== 'off';
+
+  return (
+    <div className="bg-indigo-600 rounded-xl p-6 text-white shadow-lg min-h-[300px] flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <svg className="w-5 h-5 text-indigo-200" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.364-6.364l-.707-.707M6.343 17.657l-.707.707m12.728 0l-.707-.707M12 5a7 7 0 00-7 7c0 1.603.546 3.08 1.464 4.242.484.612.907 1.251 1.25 1.932A2 2 0 009.52 20h4.96a2 2 0 001.763-1.17c.343-.68.766-1.32 1.25-1.932A7.003 7.003 0 0012 5z" /></svg>
+          <h3 className="font-bold">AI Intelligence</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button onClick={() => setShowSettings(!showSettings)} className="text-[10px] font-bold text-indigo-200 underline hover:no-underline">
+            {showSettings ? 'Done' : 'Provider'}
+          </button>
+          {enabled && (
+            <button onClick={onAnalyze} disabled={!canAnalyze || analyzing} className="px-3 py-1 rounded-lg bg-white text-indigo-700 text-[10px] font-bold uppercase tracking-widest hover:bg-indigo-50 disabled:opacity-40">
+              {result ? 'Re-run' : 'Analyze'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showSettings && (
+        <div className="space-y-2 text-xs mb-4 pb-4 border-b border-indigo-400/40">
+          <select value={settings.provider} onChange={e => onSettingsChange({ ...settings, provider: e.target.value as AnalysisProviderKind })} className={inputClass}>
+            {(Object.keys(ANALYSIS_PROVIDER_LABELS) as AnalysisProviderKind[]).map(kind => (
+              <option key={kind} value={kind}>{ANALYSIS_PROVIDER_LABELS[kind]}</option>
+            ))}
+          </select>
+          {enabled && (
+            <input type="text" value={settings.model} onChange={e => onSettingsChange({ ...settings, model: e.target.value })} placeholder={`Model (default ${settings.provider === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_OPENAI_MODEL})`} className={`${inputClass} font-mono`} />
+          )}
+          {settings.provider === 'openai' && (
+            <>
+              <input type="url" value={settings.baseUrl} onChange={e => onSettingsChange({ ...settings, baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={`${inputClass} font-mono`} />
+              <input type="password" value={settings.apiKey} onChange={e => onSettingsChange({ ...settings, apiKey: e.target.value })} placeholder="API key (optional)" className={`${inputClass} font-mono`} />
+            </>
+          )}
+          {enabled && (
+            <label className="flex items-center space-x-2 text-indigo-100">
+              <input type="checkbox" checked={settings.autoRun} onChange={e => onSettingsChange({ ...settings, autoRun: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+              <span>Analyse automatically after every sync</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto text-sm leading-relaxed text-indigo-50 scrollbar-hide">
+        {analyzing ? (
+          <div className="flex flex-col items-center justify-center h-full space-y-3 animate-pulse">
+            <div className="flex space-x-1"><div className="w-2 h-2 bg-white rounded-full"></div><div className="w-2 h-2 bg-white rounded-full"></div><div className="w-2 h-2 bg-white rounded-full"></div></div>
+            <span className="text-[10px] font-bold uppercase tracking-widest text-indigo-200">Processing Insights</span>
+          </div>
+        ) : !enabled ? (
+          <p className="text-indigo-200 italic">AI analysis is turned off.</p>
+        ) : error ? (
+          <p className="text-red-100">{error}</p>
+        ) : !result ? (
+          <p className="text-indigo-200 italic">Sync data, then press Analyze to generate a report.</p>
+        ) : (
+          <div className="space-y-3">
+            <p>{result.summary}</p>
+            {result.findings.map((finding, index) => (
+              <div key={index} className={`p-3 rounded-lg border ${SEVERITY_STYLES[finding.severity]}`}>
+                <div className="flex justify-between items-start gap-2">
+                  <span className="font-bold text-xs">{finding.title}</span>
+                  <span className="text-[9px] uppercase font-bold tracking-widest text-indigo-200">{finding.severity}</span>
+                </div>
+                {finding.detail && <p className="text-xs mt-1 text-indigo-100">{finding.detail}</p>}
+              </div>
+            ))}
+            {result.flaggedAddresses.length > 0 && (
+              <div className="p-3 rounded-lg border border-white/10 bg-white/5">
+                <span className="text-[10px] uppercase font-bold tracking-widest text-indigo-200">Flagged Addresses</span>
+                <ul className="mt-1 space-y-1 text-xs">
+                  {result.flaggedAddresses.map(flag => (
+                    <li key={flag.address}>
+                      <button onClick={() => onSelectAddress(flag.address)} className="font-mono underline hover:no-underline" title={flag.address}>{shortAddress(flag.address)}</button>
+                      {flag.reason && <span className="text-indigo-100"> — {flag.reason}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-between text-[10px] text-indigo-200">
+              <span>Confidence {Math.round(result.confidence * 100)}%</span>
+              <span title={new Date(result.generatedAt).toLocaleString()}>{ANALYSIS_PROVIDER_LABELS[result.provider].split(' ')[0]} · {result.model}</span>
+            </div>
+          </div>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
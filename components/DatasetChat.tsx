@@ -0,0 +1,114 @@
+import React, { useRef, useState } from 'react';
+import { ChatMessage, MergedData } from '../types.ts';
+import { askDataset } from '../services/geminiService.ts';
+
+interface DatasetChatProps {
+  rows: MergedData[];
+  decimals: number;
+  labels: Record<string, string>;
+  /** Gemini model override; empty uses the default. */
+  model: string;
+  /** Q&A runs on Gemini function calling; other providers only get the summary. */
+  available: boolean;
+  onSelectAddress: (address: string) => void;
+  onShowInTable: (addresses: string[]) => void;
+}
+
+const ADDRESS_PREVIEW = 8;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}=${Array.isArray(value) ? `[${value.length}]` : value}`).join(' ');
+
+const DatasetChat: React.FC<DatasetChatProps> = ({ rows, decimals, labels, model, available, onSelectAddress, onShowInTable }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!available) {
+    return <p className="mt-4 pt-4 border-t border-indigo-400/40 text-xs text-indigo-200 italic">Questions about the data need the Gemini provider.</p>;
+  }
+
+  const ask = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = question.trim();
+    if (!text || asking) return;
+    const history = messages;
+    setMessages([...history, { id: `${Date.now()}-q`, role: 'user', text }]);
+    setQuestion('');
+    setAsking(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const answer = await askDataset(text, history, { rows, decimals, labels }, model.trim() || undefined, controller.signal);
+      setMessages(prev => [...prev, { id: `${Date.now()}-a`, role: 'assistant', ...answer }]);
+    } catch (err: any) {
+      if (!controller.signal.aborted) console.warn("Dataset question failed:", err);
+      setMessages(prev => [...prev, {
+        id: `${Date.now()}-a`,
+        role: 'assistant',
+        text: controller.signal.aborted ? 'Cancelled.' : `Could not answer: ${err.message}`,
+        error: true,
+      }]);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-indigo-400/40 space-y-3">
+      {messages.length > 0 && (
+        <div className="max-h-80 overflow-y-auto space-y-2 text-xs scrollbar-hide">
+          {messages.map(message => message.role === 'user' ? (
+            <p key={message.id} className="ml-6 p-2 rounded-lg bg-white/15 text-white">{message.text}</p>
+          ) : (
+            <div key={message.id} className={`mr-6 p-2 rounded-lg border ${message.error ? 'border-red-200/40 bg-red-400/20' : 'border-white/10 bg-indigo-700/40'}`}>
+              <p className="whitespace-pre-wrap text-indigo-50">{message.text}</p>
+              {message.toolCalls && message.toolCalls.length > 0 && (
+                <ul className="mt-1 font-mono text-[9px] text-indigo-300 space-y-0.5">
+                  {message.toolCalls.map((call, index) => (
+                    <li key={index}>{call.name}({formatArgs(call.args)}) → {call.matched} row(s)</li>
+                  ))}
+                </ul>
+              )}
+              {message.addresses && message.addresses.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1 items-center">
+                  {message.addresses.slice(0, ADDRESS_PREVIEW).map(address => (
+                    <button key={address} onClick={() => onSelectAddress(address)} className="px-1.5 py-0.5 rounded bg-white/10 font-mono text-[10px] hover:bg-white/20" title={labels[address] || address}>
+                      {labels[address] || shortAddress(address)}
+                    </button>
+                  ))}
+                  <button onClick={() => onShowInTable(message.addresses!)} className="text-[10px] font-bold underline hover:no-underline">
+                    Show {message.addresses.length} in table
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={ask} className="flex space-x-2">
+        <input
+          type="text"
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="Ask about the data, e.g. level 3 with DAO reward 0"
+          disabled={rows.length === 0}
+          className="flex-1 p-2 rounded-lg bg-indigo-700/60 border border-indigo-400/40 text-xs text-white placeholder-indigo-300 focus:outline-none focus:ring-2 focus:ring-white/40 disabled:opacity-50"
+        />
+        {asking ? (
+          <button type="button" onClick={() => abortRef.current?.abort()} className="px-3 py-1 rounded-lg border border-white/40 text-[10px] font-bold uppercase tracking-widest">Stop</button>
+        ) : (
+          <button type="submit" disabled={!question.trim() || rows.length === 0} className="px-3 py-1 rounded-lg bg-white text-indigo-700 text-[10px] font-bold uppercase tracking-widest hover:bg-indigo-50 disabled:opacity-40">Ask</button>
+        )}
+      </form>
+      {messages.length > 0 && !asking && (
+        <button onClick={() => setMessages([])} className="text-[10px] font-bold text-indigo-300 hover:text-white">Clear Conversation</button>
+      )}
+    </div>
+  );
+};
+
+export default DatasetChat;
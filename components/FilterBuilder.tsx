@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { FilterCondition, FilterField, FilterGroup, FilterPreset, FilterSpec } from '../types.ts';
+import {
+  FILTER_FIELD_LABELS,
+  EMPTY_FILTER,
+  createCondition,
+  createGroup,
+  parseAddressList
+} from '../utils/filters.ts';
+
+interface FilterBuilderProps {
+  spec: FilterSpec;
+  onChange: (spec: FilterSpec) => void;
+  presets: FilterPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  matchCount: number;
+  totalCount: number;
+}
+
+const inputClass = "bg-white text-gray-900 border border-gray-300 px-2 py-1.5 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+const CombinatorToggle: React.FC<{ value: 'and' | 'or'; onChange: (value: 'and' | 'or') => void }> = ({ value, onChange }) => (
+  <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-[10px] font-bold">
+    {(['and', 'or'] as const).map(option => (
+      <button key={option} onClick={() => onChange(option)} className={`px-2 py-1 uppercase ${value === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-500 hover:bg-gray-50'}`}>
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+const parseBound = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+// Address lists are edited as text so partial input is not rewritten while typing.
+const AddressListInput: React.FC<{ condition: FilterCondition; onChange: (addresses: string[]) => void }> = ({ condition, onChange }) => {
+  const [text, setText] = useState((condition.addresses || []).join('\n'));
+  return (
+    <textarea
+      rows={2}
+      value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => onChange(parseAddressList(text))}
+      placeholder="0x… addresses, one per line or comma separated"
+      className={`${inputClass} font-mono flex-1 resize-y`}
+    />
+  );
+};
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({
+  spec,
+  onChange,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+  matchCount,
+  totalCount
+}) => {
+  const [presetName, setPresetName] = useState('');
+
+  const updateGroup = (groupId: string, patch: Partial<FilterGroup>) => {
+    onChange({ ...spec, groups: spec.groups.map(group => (group.id === groupId ? { ...group, ...patch } : group)) });
+  };
+
+  const updateCondition = (group: FilterGroup, conditionId: string, patch: Partial<FilterCondition>) => {
+    updateGroup(group.id, {
+      conditions: group.conditions.map(condition => (condition.id === conditionId ? { ...condition, ...patch } : condition)),
+    });
+  };
+
+  const removeCondition = (group: FilterGroup, conditionId: string) => {
+    const conditions = group.conditions.filter(condition => condition.id !== conditionId);
+    if (conditions.length === 0) {
+      onChange({ ...spec, groups: spec.groups.filter(g => g.id !== group.id) });
+    } else {
+      updateGroup(group.id, { conditions });
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-100 bg-white space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-bold text-gray-500 uppercase tracking-wider">Match</span>
+        <CombinatorToggle value={spec.combinator} onChange={combinator => onChange({ ...spec, combinator })} />
+        <span className="text-gray-400">of the groups below</span>
+        <span className="ml-auto font-bold text-gray-700">{matchCount.toLocaleString()} / {totalCount.toLocaleString()} rows</span>
+      </div>
+
+      {spec.groups.map((group, index) => (
+        <div key={group.id} className="rounded-lg border border-gray-200 bg-gray-50/50 p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-gray-500">Group {index + 1}</span>
+            <CombinatorToggle value={group.combinator} onChange={combinator => updateGroup(group.id, { combinator })} />
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => updateGroup(group.id, { conditions: [...group.conditions, createCondition('range')] })} className="font-bold text-indigo-600 hover:underline">+ Range</button>
+              <button onClick={() => updateGroup(group.id, { conditions: [...group.conditions, createCondition('include')] })} className="font-bold text-indigo-600 hover:underline">+ Include list</button>
+              <button onClick={() => updateGroup(group.id, { conditions: [...group.conditions, createCondition('exclude')] })} className="font-bold text-indigo-600 hover:underline">+ Exclude list</button>
+            </div>
+          </div>
+          {group.conditions.map(condition => (
+            <div key={condition.id} className="flex items-start gap-2">
+              {condition.kind === 'range' ? (
+                <>
+                  <select value={condition.field} onChange={e => updateCondition(group, condition.id, { field: e.target.value as FilterField })} className={inputClass}>
+                    {(Object.keys(FILTER_FIELD_LABELS) as FilterField[]).map(field => (
+                      <option key={field} value={field}>{FILTER_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                  <input type="number" value={condition.min ?? ''} onChange={e => updateCondition(group, condition.id, { min: parseBound(e.target.value) })} placeholder="min" className={`${inputClass} w-28`} />
+                  <span className="py-1.5 text-gray-400">to</span>
+                  <input type="number" value={condition.max ?? ''} onChange={e => updateCondition(group, condition.id, { max: parseBound(e.target.value) })} placeholder="max" className={`${inputClass} w-28`} />
+                </>
+              ) : (
+                <>
+                  <span className={`py-1.5 font-bold w-16 ${condition.kind === 'include' ? 'text-emerald-600' : 'text-red-600'}`}>{condition.kind === 'include' ? 'Only' : 'Not'}</span>
+                  <AddressListInput condition={condition} onChange={addresses => updateCondition(group, condition.id, { addresses })} />
+                </>
+              )}
+              <button onClick={() => removeCondition(group, condition.id)} className="p-1.5 text-gray-300 hover:text-red-500" title="Remove rule">
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onChange({ ...spec, groups: [...spec.groups, createGroup()] })} className="px-3 py-1.5 border border-gray-300 rounded-lg font-bold text-gray-600 hover:bg-gray-50">Add Group</button>
+        <button onClick={() => onChange(EMPTY_FILTER)} className="px-3 py-1.5 border border-gray-300 rounded-lg font-bold text-gray-600 hover:bg-gray-50">Clear</button>
+        <div className="ml-auto flex items-center gap-2">
+          {presets.length > 0 && (
+            <select value="" onChange={e => { const preset = presets.find(p => p.name === e.target.value); if (preset) onChange(preset.spec); }} className={inputClass}>
+              <option value="">Load preset…</option>
+              {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+            </select>
+          )}
+          {presets.length > 0 && (
+            <select value="" onChange={e => e.target.value && onDeletePreset(e.target.value)} className={inputClass} title="Delete a saved preset">
+              <option value="">Delete preset…</option>
+              {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+            </select>
+          )}
+          <input value={presetName} onChange={e => setPresetName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSavePreset()} placeholder="Preset name" className={`${inputClass} w-32`} />
+          <button onClick={handleSavePreset} disabled={!presetName.trim()} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:bg-indigo-300">Save Preset</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { LiveFeedEntry, LiveStatus } from '../types.ts';
+import { formatAmount } from '../utils/amount.ts';
+
+interface LiveFeedProps {
+  entries: LiveFeedEntry[];
+  status: LiveStatus | null;
+  active: boolean;
+  decimals: number;
+  explorerUrl: string;
+  onSelectAddress: (address: string) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const LiveFeed: React.FC<LiveFeedProps> = ({ entries, status, active, decimals, explorerUrl, onSelectAddress }) => (
+  <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-[10px] uppercase font-bold text-gray-400 tracking-widest flex items-center space-x-2">
+        <span className={`inline-block w-2 h-2 rounded-full ${active ? 'bg-emerald-500 animate-pulse' : 'bg-gray-300'}`}></span>
+        <span>Live Feed</span>
+      </h3>
+      {status && (
+        <span className="text-[10px] font-mono text-gray-400" title={status.lastSweepAt ? `Last re-check ${new Date(status.lastSweepAt).toLocaleTimeString()}` : 'Not re-checked yet'}>
+          {status.transport === 'websocket' ? 'WS' : 'Polling'} · #{status.head?.toLocaleString() ?? '—'}
+        </span>
+      )}
+    </div>
+
+    {status?.error && <p className="mb-2 text-[11px] text-amber-700">{status.error}</p>}
+    {status && status.reorgedEvents > 0 && (
+      <p className="mb-2 text-[11px] text-gray-500">{status.reorgedEvents} event(s) dropped by reorgs.</p>
+    )}
+
+    {entries.length === 0 ? (
+      <p className="text-xs text-gray-400 italic">{active ? 'Waiting for new events…' : 'Turn on live mode to follow new events.'}</p>
+    ) : (
+      <ul className="max-h-72 overflow-y-auto space-y-1 text-xs">
+        {entries.map(entry => (
+          <li key={`${entry.removed ? 'r' : 'a'}:${entry.event.blockNumber}:${entry.event.transactionHash}:${entry.event.logIndex}`} className={`flex items-center justify-between p-2 rounded border ${entry.removed ? 'border-red-100 bg-red-50/50 line-through text-gray-400' : 'border-gray-100'}`}>
+            <div className="min-w-0">
+              <button onClick={() => onSelectAddress(entry.event.address)} className="font-mono text-indigo-600 hover:underline" title={entry.event.address}>{shortAddress(entry.event.address)}</button>
+              <a href={`${explorerUrl.replace(/\/+$/, '')}/tx/${entry.event.transactionHash}`} target="_blank" rel="noopener noreferrer" className="block text-[10px] text-gray-400 font-mono hover:underline">
+                #{entry.event.blockNumber.toLocaleString()}{entry.removed && ' · reorged'}
+              </a>
+            </div>
+            <span className="font-bold tabular-nums">{formatAmount(entry.event.amount, 4, decimals)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default LiveFeed;
@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  pageSizes: number[];
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageSize, total, pageSizes, onPageChange, onPageSizeChange }) => {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : page * pageSize + 1;
+  const last = Math.min(total, (page + 1) * pageSize);
+  const buttonClass = "px-2.5 py-1 border border-gray-300 rounded-md font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-white";
+
+  return (
+    <div className="px-6 py-3 border-t border-gray-100 bg-gray-50/50 flex flex-wrap items-center justify-between gap-3 text-xs">
+      <div className="flex items-center space-x-2 text-gray-500">
+        <span>Rows per page</span>
+        <select value={pageSize} onChange={e => onPageSizeChange(Number(e.target.value))} className="py-1 px-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+          {pageSizes.map(size => <option key={size} value={size}>{size}</option>)}
+        </select>
+        <span className="tabular-nums">{first.toLocaleString()}–{last.toLocaleString()} of {total.toLocaleString()}</span>
+      </div>
+      <div className="flex items-center space-x-1">
+        <button onClick={() => onPageChange(0)} disabled={page === 0} className={buttonClass} title="First page">«</button>
+        <button onClick={() => onPageChange(page - 1)} disabled={page === 0} className={buttonClass} title="Previous page">‹</button>
+        <span className="px-2 font-bold text-gray-700 tabular-nums">{page + 1} / {pageCount}</span>
+        <button onClick={() => onPageChange(page + 1)} disabled={page >= pageCount - 1} className={buttonClass} title="Next page">›</button>
+        <button onClick={() => onPageChange(pageCount - 1)} disabled={page >= pageCount - 1} className={buttonClass} title="Last page">»</button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,156 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ImportedFile, MergedData } from '../types.ts';
+import { parseImportFile } from '../services/importService.ts';
+import { reconcile } from '../utils/reconcile.ts';
+import { AmountMetric, METRIC_LABELS } from '../utils/aggregation.ts';
+import { formatAmount, parseAmount, toDecimalString } from '../utils/amount.ts';
+import { toCsv } from '../utils/csv.ts';
+import { downloadFile } from '../utils/download.ts';
+
+interface ReconciliationPanelProps {
+  /** Every row of the run, whatever the threshold, so files listing small amounts still match. */
+  rows: MergedData[];
+  /** Rows expected in the file; the others are not reported as missing from it. */
+  inScope: (row: MergedData) => boolean;
+  decimals: number;
+  metric: AmountMetric;
+  onSelectAddress: (address: string) => void;
+}
+
+type TokenMetric = Exclude<AmountMetric, 'eventCount'>;
+
+const TOKEN_METRICS = (Object.keys(METRIC_LABELS) as AmountMetric[]).filter(key => key !== 'eventCount') as TokenMetric[];
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const ReportSection: React.FC<{ title: string; tone: string; items: { address: string; detail: string }[]; onSelect: (address: string) => void }> = ({ title, tone, items, onSelect }) => (
+  <details className="border-t border-gray-100 pt-2" open={items.length > 0 && items.length <= 20}>
+    <summary className="cursor-pointer font-medium text-gray-600 flex justify-between">
+      <span>{title}</span>
+      <span className={`font-bold ${items.length > 0 ? tone : 'text-gray-900'}`}>{items.length}</span>
+    </summary>
+    {items.length > 0 && (
+      <ul className="mt-1 max-h-48 overflow-y-auto font-mono text-[10px] text-gray-500 space-y-0.5">
+        {items.map(item => (
+          <li key={item.address} className="flex justify-between gap-4">
+            <button onClick={() => onSelect(item.address)} className="text-indigo-600 hover:underline" title={item.address}>{shortAddress(item.address)}</button>
+            <span className="text-right">{item.detail}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </details>
+);
+
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ rows, inScope, decimals, metric, onSelectAddress }) => {
+  const [file, setFile] = useState<ImportedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tolerance, setTolerance] = useState(() => localStorage.getItem('lgns_reconcile_tolerance') || '0.0001');
+  const [compareMetric, setCompareMetric] = useState<TokenMetric>(metric === 'eventCount' ? 'totalLgns' : metric);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+    try {
+      const imported = await parseImportFile(selected.name, await selected.text(), decimals);
+      setFile(imported);
+      setError(null);
+      // Exports and manifests record which amount they carry.
+      if (TOKEN_METRICS.includes(imported.metric as TokenMetric)) setCompareMetric(imported.metric as TokenMetric);
+    } catch (err: any) {
+      setFile(null);
+      setError(`Could not read ${selected.name}: ${err.message}`);
+    }
+  };
+
+  const toleranceRaw = parseAmount(tolerance, decimals);
+  const report = useMemo(
+    () => (file ? reconcile(file.rows, rows, { metric: compareMetric, tolerance: toleranceRaw, inScope }) : null),
+    [file, rows, inScope, compareMetric, toleranceRaw]
+  );
+
+  const exportReport = () => {
+    if (!report || !file) return;
+    const csv = toCsv([
+      ['issue', 'address', 'imported', 'current'],
+      ...report.missingFromCurrent.map(row => ['missing_from_current', row.address, row.amount === undefined ? '' : toDecimalString(row.amount, decimals), '']),
+      ...report.missingFromFile.map(address => ['missing_from_file', address, '', '']),
+      ...report.amountMismatches.map(m => ['amount_mismatch', m.address, toDecimalString(m.imported, decimals), toDecimalString(m.current, decimals)]),
+      ...report.levelMismatches.map(m => ['level_mismatch', m.address, m.imported, m.current]),
+      ...report.withoutAmount.map(address => ['amount_missing_in_file', address, '', '']),
+      ...report.duplicates.map(address => ['duplicate_in_file', address, '', '']),
+    ]);
+    downloadFile(`lgns_reconciliation_${file.name.replace(/\.[^.]+$/, '')}.csv`, csv, 'text/csv;charset=utf-8;');
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-[10px] uppercase font-bold text-gray-400 tracking-widest">Reconciliation</h3>
+        {report && <button onClick={exportReport} className="text-[10px] font-bold text-indigo-600 underline hover:no-underline">Export Report</button>}
+      </div>
+
+      <div className="space-y-3 text-xs">
+        <input ref={fileInput} type="file" accept=".csv,.json,.ndjson,.txt,text/csv,application/json,text/plain" onChange={handleImport} className="hidden" />
+        <button onClick={() => fileInput.current?.click()} className="w-full py-2 rounded-lg border border-gray-300 font-bold text-gray-600 hover:bg-gray-50 transition-colors">
+          {file ? 'Import Another File' : 'Import Export or Payout List'}
+        </button>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1">
+            <span className="block text-gray-500 font-medium">Compare amount</span>
+            <select value={compareMetric} onChange={e => setCompareMetric(e.target.value as TokenMetric)} className="w-full p-2 border border-gray-300 rounded-lg bg-white">
+              {TOKEN_METRICS.map(key => <option key={key} value={key}>{METRIC_LABELS[key]}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500 font-medium">Tolerance</span>
+            <input type="number" min="0" step="any" value={tolerance} onChange={e => { setTolerance(e.target.value); localStorage.setItem('lgns_reconcile_tolerance', e.target.value); }} className="w-full p-2 border border-gray-300 rounded-lg bg-white" />
+          </label>
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+
+        {file && report && (
+          <div className="space-y-2">
+            <p className="text-gray-500">
+              <span className="font-bold text-gray-700">{file.name}</span> · {file.format.toUpperCase()} · {file.rows.length.toLocaleString()} rows
+              {file.blocks && <> · blocks {file.blocks}</>}
+              {file.skipped > 0 && <span className="text-amber-600"> · {file.skipped} unreadable rows skipped</span>}
+            </p>
+            {!file.hasAmounts && (
+              <p className="font-bold text-amber-600">No amount column was found in this file, so amounts were not compared and no address counts as a match.</p>
+            )}
+            {file.checksumValid !== undefined && (
+              <p className={`font-bold ${file.checksumValid ? 'text-emerald-600' : 'text-red-600'}`}>
+                {file.checksumValid ? 'Manifest checksum verified.' : 'Manifest checksum does not match: the file was edited after export.'}
+              </p>
+            )}
+            <p className="text-gray-500">
+              <span className="font-bold text-emerald-600">{report.matched.toLocaleString()}</span> addresses match the current data within {formatAmount(toleranceRaw, decimals, decimals)}.
+            </p>
+            <ReportSection title="Missing From Current Data" tone="text-red-600" onSelect={onSelectAddress}
+              items={report.missingFromCurrent.map(row => ({ address: row.address, detail: row.amount === undefined ? '' : formatAmount(row.amount, 4, decimals) }))} />
+            <ReportSection title="Missing From File (Above Threshold)" tone="text-red-600" onSelect={onSelectAddress}
+              items={report.missingFromFile.map(address => ({ address, detail: '' }))} />
+            <ReportSection title="Amount Mismatches" tone="text-amber-600" onSelect={onSelectAddress}
+              items={report.amountMismatches.map(m => ({ address: m.address, detail: `${formatAmount(m.imported, 4, decimals)} → ${formatAmount(m.current, 4, decimals)}` }))} />
+            <ReportSection title="Level Differences" tone="text-amber-600" onSelect={onSelectAddress}
+              items={report.levelMismatches.map(m => ({ address: m.address, detail: `L${m.imported} → L${m.current}` }))} />
+            {file.hasAmounts && report.withoutAmount.length > 0 && (
+              <ReportSection title="Rows Without Amount" tone="text-amber-600" onSelect={onSelectAddress}
+                items={report.withoutAmount.map(address => ({ address, detail: '' }))} />
+            )}
+            {report.duplicates.length > 0 && (
+              <ReportSection title="Duplicates In File" tone="text-amber-600" onSelect={onSelectAddress}
+                items={Array.from(new Set<string>(report.duplicates)).map(address => ({ address, detail: '' }))} />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
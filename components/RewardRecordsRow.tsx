@@ -0,0 +1,70 @@
+import React from 'react';
+import { MergedData } from '../types.ts';
+
+interface RewardRecordsRowProps {
+  row: MergedData;
+  colSpan: number;
+}
+
+const formatExtra = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+const RewardRecordsRow: React.FC<RewardRecordsRowProps> = ({ row, colSpan }) => {
+  const records = row.rewardRecords || [];
+  const issues = row.rewardSchemaIssues || [];
+  const extraKeys = Array.from(new Set<string>(records.flatMap(record => Object.keys(record.extra))));
+  const totalReward = records.reduce((acc, record) => acc + record.reward, 0);
+
+  return (
+    <tr className="bg-gray-50/70">
+      <td colSpan={colSpan} className="px-6 py-4">
+        {issues.length > 0 && (
+          <ul className="mb-3 text-[11px] text-amber-700 bg-amber-50 border border-amber-200 rounded p-2 space-y-0.5">
+            {issues.map(issue => <li key={issue}>Schema drift: {issue}</li>)}
+          </ul>
+        )}
+        {row.error ? (
+          <p className="text-xs text-red-600">{row.error}</p>
+        ) : records.length === 0 ? (
+          <p className="text-xs text-gray-400 italic">No Ocros reward records for this address.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs border-collapse">
+              <thead className="text-gray-400 font-bold uppercase text-[10px]">
+                <tr>
+                  <th className="px-3 py-1.5 border-b">#</th>
+                  <th className="px-3 py-1.5 border-b">Level</th>
+                  <th className="px-3 py-1.5 border-b text-right">Reward</th>
+                  {extraKeys.map(key => <th key={key} className="px-3 py-1.5 border-b font-mono normal-case">{key}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {records.map((record, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-1.5 text-gray-400">{index + 1}</td>
+                    <td className="px-3 py-1.5 font-bold">L{record.level}</td>
+                    <td className="px-3 py-1.5 text-right font-bold text-emerald-600 tabular-nums">{record.reward.toFixed(4)}</td>
+                    {extraKeys.map(key => (
+                      <td key={key} className="px-3 py-1.5 font-mono text-gray-600 break-all">{key in record.extra ? formatExtra(record.extra[key]) : ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              {records.length > 1 && (
+                <tfoot>
+                  <tr className="border-t border-gray-200">
+                    <td colSpan={2} className="px-3 py-1.5 font-bold text-gray-500">Sum of {records.length} records</td>
+                    <td className="px-3 py-1.5 text-right font-bold text-emerald-700 tabular-nums">{totalReward.toFixed(4)}</td>
+                    {extraKeys.length > 0 && <td colSpan={extraKeys.length}></td>}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+export default RewardRecordsRow;
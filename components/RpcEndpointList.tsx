@@ -0,0 +1,25 @@
+import React from 'react';
+import { RpcEndpointStatus } from '../types.ts';
+
+interface RpcEndpointListProps {
+  endpoints: RpcEndpointStatus[];
+}
+
+const RpcEndpointList: React.FC<RpcEndpointListProps> = ({ endpoints }) => (
+  <ul className="space-y-1.5">
+    {endpoints.map(endpoint => (
+      <li key={endpoint.url} className="bg-indigo-50/50 p-2 rounded border border-indigo-100/50" title={endpoint.lastError || endpoint.url}>
+        <div className="flex items-center space-x-2">
+          <span className={`w-2 h-2 rounded-full flex-shrink-0 ${endpoint.healthy ? 'bg-emerald-500' : 'bg-red-500'}`}></span>
+          <span className="font-mono text-indigo-600 truncate">{endpoint.url}</span>
+        </div>
+        <div className="flex justify-between mt-1 text-[10px] text-gray-500 font-mono">
+          <span>{endpoint.latencyMs !== null ? `${endpoint.latencyMs} ms` : '--- ms'}</span>
+          <span>{endpoint.headBlock !== null ? `#${endpoint.headBlock.toLocaleString()}` : (endpoint.lastError ? 'unreachable' : '---')}</span>
+        </div>
+      </li>
+    ))}
+  </ul>
+);
+
+export default RpcEndpointList;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { SnapshotSummary, SnapshotDiff } from '../types.ts';
+import { getSnapshot } from '../services/snapshotService.ts';
+import { diffSnapshots } from '../utils/snapshotDiff.ts';
+import { formatAmount } from '../utils/amount.ts';
+
+interface SnapshotPanelProps {
+  snapshots: SnapshotSummary[];
+  viewingId: number | null;
+  onOpen: (id: number) => void;
+  onBackToLive: () => void;
+  onDelete: (id: number) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const snapshotLabel = (snapshot: SnapshotSummary) =>
+  `${new Date(snapshot.createdAt).toLocaleString()} · #${snapshot.range.end.toLocaleString()}`;
+
+const DiffSection: React.FC<{ title: string; items: string[] }> = ({ title, items }) => (
+  <details className="border-t border-gray-100 pt-2">
+    <summary className="cursor-pointer font-medium text-gray-600 flex justify-between">
+      <span>{title}</span>
+      <span className="font-bold text-gray-900">{items.length}</span>
+    </summary>
+    {items.length > 0 && (
+      <ul className="mt-1 max-h-32 overflow-y-auto font-mono text-[10px] text-gray-500 space-y-0.5">
+        {items.map(item => <li key={item}>{item}</li>)}
+      </ul>
+    )}
+  </details>
+);
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ snapshots, viewingId, onOpen, onBackToLive, onDelete }) => {
+  const [baseId, setBaseId] = useState<number | ''>('');
+  const [compareId, setCompareId] = useState<number | ''>('');
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [diffDecimals, setDiffDecimals] = useState<number | undefined>(undefined);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDiff(null);
+    setCompareError(null);
+  }, [baseId, compareId]);
+
+  const handleCompare = async () => {
+    if (baseId === '' || compareId === '') return;
+    setComparing(true);
+    setCompareError(null);
+    try {
+      const [base, current] = await Promise.all([getSnapshot(baseId), getSnapshot(compareId)]);
+      if (!base || !current) throw new Error('Snapshot no longer exists.');
+      setDiff(diffSnapshots(base.data, current.data));
+      setDiffDecimals(current.decimals);
+    } catch (err: any) {
+      console.warn("Failed to compare snapshots:", err);
+      setCompareError(`Compare failed: ${err.message}`);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-[10px] uppercase font-bold text-gray-400 tracking-widest">Sync Snapshots</h3>
+        {viewingId !== null && (
+          <button onClick={onBackToLive} className="text-[10px] font-bold text-indigo-600 underline hover:no-underline">Back to Live</button>
+        )}
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">Completed syncs will appear here.</p>
+      ) : (
+        <div className="space-y-4 text-xs">
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {snapshots.map(snapshot => (
+              <li key={snapshot.id} className={`flex items-center justify-between p-2 rounded border ${viewingId === snapshot.id ? 'border-indigo-300 bg-indigo-50' : 'border-gray-100'}`}>
+                <button onClick={() => onOpen(snapshot.id)} className="text-left flex-1 min-w-0" title="Open this snapshot">
+                  <span className="block text-gray-900 font-medium truncate">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                  <span className="block text-[10px] text-gray-400 font-mono">
+                    {snapshot.range.start.toLocaleString()}–{snapshot.range.end.toLocaleString()} · {snapshot.stats.totalUsers} accts · {formatAmount(snapshot.stats.totalLgns, 2, snapshot.decimals)}
+                  </span>
+                </button>
+                <button onClick={() => onDelete(snapshot.id)} className="ml-2 p-1 text-gray-300 hover:text-red-500" title="Delete snapshot">
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t border-gray-100 pt-3 space-y-2">
+            <span className="text-gray-500 font-medium">Compare</span>
+            <select value={baseId} onChange={e => setBaseId(e.target.value ? Number(e.target.value) : '')} className="w-full p-2 border border-gray-300 rounded-lg bg-white">
+              <option value="">Older snapshot…</option>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>)}
+            </select>
+            <select value={compareId} onChange={e => setCompareId(e.target.value ? Number(e.target.value) : '')} className="w-full p-2 border border-gray-300 rounded-lg bg-white">
+              <option value="">Newer snapshot…</option>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>)}
+            </select>
+            <button onClick={handleCompare} disabled={baseId === '' || compareId === '' || comparing} className="w-full py-2 rounded-lg bg-indigo-600 text-white font-bold disabled:bg-indigo-300 hover:bg-indigo-700 transition-colors">
+              {comparing ? 'Comparing…' : 'Compare Snapshots'}
+            </button>
+            {compareError && <p className="text-red-600">{compareError}</p>}
+          </div>
+
+          {diff && (
+            <div className="space-y-2">
+              <DiffSection title="New Addresses" items={diff.newAddresses} />
+              <DiffSection title="Dropped Addresses" items={diff.droppedAddresses} />
+              <DiffSection title="Level Changes" items={diff.levelChanges.map(c => `${shortAddress(c.address)}  L${c.from} → L${c.to}`)} />
+              <DiffSection title="DAO Reward Changes" items={diff.rewardChanges.map(c => `${shortAddress(c.address)}  ${c.from.toFixed(2)} → ${c.to.toFixed(2)}`)} />
+              <DiffSection title="Output Changes" items={diff.outputChanges.map(c => `${shortAddress(c.address)}  ${formatAmount(c.from, 2, diffDecimals)} → ${formatAmount(c.to, 2, diffDecimals)}`)} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
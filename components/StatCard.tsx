@@ -15,7 +15,7 @@ const StatCard: React.FC<StatCardProps> = ({ label, value, icon, trend }) => (
       <h3 className="text-2xl font-bold text-gray-900">{value}</h3>
       {trend && (
         <p className={`text-xs mt-2 ${trend.startsWith('+') ? 'text-green-600' : 'text-red-600'} font-semibold`}>
-          {trend} from previous block
+          {trend} vs previous sync
         </p>
       )}
     </div>
@@ -0,0 +1,67 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LGNSEvent } from '../types.ts';
+import { DEFAULT_TIME_BUCKET_BLOCKS } from '../constants.ts';
+import { interpolateBlockTime } from '../services/blockTimeService.ts';
+import { BucketMode, bucketEvents, toChartRows } from '../utils/timeSeries.ts';
+
+interface TimeSeriesPanelProps {
+  events: LGNSEvent[];
+  blockTimes: Map<number, number>;
+  decimals: number;
+  /** Scanned block range; buckets without events inside it are drawn at zero. */
+  range: { start: number; end: number } | null;
+}
+
+const TimeSeriesPanel: React.FC<TimeSeriesPanelProps> = ({ events, blockTimes, decimals, range }) => {
+  const [mode, setMode] = useState<BucketMode>('blocks');
+  const [bucketBlocks, setBucketBlocks] = useState(DEFAULT_TIME_BUCKET_BLOCKS);
+
+  const rows = useMemo(() => toChartRows(bucketEvents(
+    events,
+    mode,
+    bucketBlocks,
+    block => interpolateBlockTime(blockTimes, block),
+    range
+  ), decimals), [events, mode, bucketBlocks, blockTimes, decimals, range]);
+
+  const hourUnavailable = mode === 'hour' && blockTimes.size === 0;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+        <h3 className="font-bold text-gray-900">Production Over Time</h3>
+        <div className="flex items-center space-x-2 text-xs">
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+            <button onClick={() => setMode('blocks')} className={`px-3 py-1.5 font-bold ${mode === 'blocks' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}>Per Blocks</button>
+            <button onClick={() => setMode('hour')} className={`px-3 py-1.5 font-bold ${mode === 'hour' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}>Per Hour (UTC)</button>
+          </div>
+          {mode === 'blocks' && (
+            <input type="number" min={1} value={bucketBlocks} onChange={e => setBucketBlocks(Number(e.target.value))} className="w-24 py-1.5 px-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" title="Blocks per bucket" />
+          )}
+        </div>
+      </div>
+      <div className="h-72 w-full">
+        {hourUnavailable ? (
+          <div className="h-full flex items-center justify-center text-gray-400 italic text-sm">Block timestamps are not loaded yet.</div>
+        ) : rows.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="label" axisLine={false} tickLine={false} fontSize={10} dy={10} />
+              <YAxis yAxisId="output" axisLine={false} tickLine={false} fontSize={10} />
+              <YAxis yAxisId="count" orientation="right" axisLine={false} tickLine={false} fontSize={10} allowDecimals={false} />
+              <Tooltip cursor={{fill: '#f8fafc'}} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Bar yAxisId="output" dataKey="total" name="Output" fill="#4f46e5" radius={[4,4,0,0]} />
+              <Line yAxisId="output" dataKey="cumulative" name="Cumulative" stroke="#10b981" dot={false} strokeWidth={2} />
+              <Line yAxisId="count" dataKey="activeAddresses" name="Active Addresses" stroke="#f59e0b" dot={false} strokeWidth={2} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        ) : <div className="h-full flex items-center justify-center text-gray-400 italic text-sm">No data matching filters.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default TimeSeriesPanel;
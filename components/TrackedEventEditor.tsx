@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { TrackedEvent } from '../types.ts';
+import { resolveEventSource } from '../services/eventRegistry.ts';
+import { CHAIN_PROFILES, DEFAULT_CHAIN, LGNS_PRECISION } from '../constants.ts';
+
+interface TrackedEventEditorProps {
+  events: TrackedEvent[];
+  onSave: (events: TrackedEvent[]) => void;
+}
+
+const inputClass = "bg-gray-50 text-gray-900 border border-gray-300 p-2 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none w-full";
+
+const TrackedEventEditor: React.FC<TrackedEventEditorProps> = ({ events, onSave }) => {
+  const [drafts, setDrafts] = useState<TrackedEvent[]>(events);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (index: number, patch: Partial<TrackedEvent>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const addEvent = () => {
+    setDrafts(prev => [...prev, {
+      id: `event-${Date.now()}`,
+      name: 'New Event',
+      contractAddress: '',
+      abi: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+      chain: DEFAULT_CHAIN,
+      decimals: LGNS_PRECISION,
+    }]);
+  };
+
+  const handleSave = () => {
+    const problems: string[] = [];
+    drafts.forEach(draft => {
+      try {
+        resolveEventSource(draft);
+      } catch (error: any) {
+        problems.push(error.message);
+      }
+    });
+    if (new Set(drafts.map(d => d.id)).size !== drafts.length) problems.push('Event ids must be unique.');
+    if (drafts.length === 0) problems.push('Track at least one event.');
+    setErrors(problems);
+    if (problems.length === 0) onSave(drafts);
+  };
+
+  return (
+    <div className="border-t border-gray-100 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Tracked Events</h3>
+        <div className="flex space-x-2">
+          <button onClick={addEvent} className="px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-50">Add Event</button>
+          <button onClick={handleSave} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700">Save Events</button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {drafts.map((draft, index) => (
+          <div key={draft.id} className="grid grid-cols-1 md:grid-cols-6 gap-3 p-3 rounded-lg border border-gray-200 bg-gray-50/50">
+            <input className={inputClass} value={draft.name} onChange={e => update(index, { name: e.target.value })} placeholder="Name" title="Tab name" />
+            <input className={`${inputClass} font-mono md:col-span-2`} value={draft.contractAddress} onChange={e => update(index, { contractAddress: e.target.value })} placeholder="Contract 0x…" title="Contract address" />
+            <select className={inputClass} value={draft.chain} onChange={e => update(index, { chain: e.target.value })} title="Chain">
+              {!CHAIN_PROFILES[draft.chain] && <option value={draft.chain}>{draft.chain || 'Select chain'}</option>}
+              {Object.values(CHAIN_PROFILES).map(profile => <option key={profile.key} value={profile.key}>{profile.name}</option>)}
+            </select>
+            <input className={inputClass} type="number" min={0} value={draft.decimals} onChange={e => update(index, { decimals: Number(e.target.value) })} title="Token decimals" />
+            <button onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))} className="text-xs font-bold text-red-500 hover:text-red-700">Remove</button>
+            <textarea rows={2} className={`${inputClass} font-mono md:col-span-6 resize-y`} value={draft.abi} onChange={e => update(index, { abi: e.target.value })} placeholder="event Name(address indexed user, uint256 amount) or JSON ABI item" title="ABI event fragment" />
+            <input className={`${inputClass} font-mono md:col-span-2`} value={draft.topic || ''} onChange={e => update(index, { topic: e.target.value || undefined })} placeholder="topic0 override (optional)" title="Only needed when the canonical signature is unknown" />
+            <input className={inputClass} value={draft.addressParam || ''} onChange={e => update(index, { addressParam: e.target.value || undefined })} placeholder="Address input (auto)" />
+            <input className={inputClass} value={draft.amountParam || ''} onChange={e => update(index, { amountParam: e.target.value || undefined })} placeholder="Amount input (auto)" />
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-xs text-red-600 space-y-0.5">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrackedEventEditor;
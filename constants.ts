@@ -1,9 +1,59 @@
+import { ChainProfile } from './types.ts';
+
 
 export const DEFAULT_POLYGON_RPC = 'https://dimensional-warmhearted-borough.matic.quiknode.pro/8d6b4c4e9e51944c650c74a447f3ae960c9f8cfe';
 export const CONTRACT_ADDRESS = '0x806fdab92b0fc7fbe4bbbe5117a54caa9283d5a4';
 export const TOPIC_SIGNATURE = '0x3734977dac0c3794147c3e814ea48ff46d285e1f20ce78746fb976620ccc320e';
 export const OCROS_API_BASE_URL = 'https://apiv2.ocros.io/api/v1';
+export const OCROS_CACHE_TTL_MS = 10 * 60 * 1000; // Reward lookups are reused for this long
+export const OCROS_RATE_PER_SECOND = 10; // Token bucket refill rate for reward requests
+export const OCROS_BURST = 10; // Token bucket capacity
+export const OCROS_CONCURRENCY = 8; // Reward requests awaiting a response at once
+export const OCROS_MAX_RETRIES = 3; // Retries on 429, 5xx and network errors
+export const OCROS_RETRY_BASE_DELAY_MS = 1000; // Doubled per retry unless the server sends Retry-After
+export const DEFAULT_CHAIN = 'polygon';
 export const LGNS_PRECISION = 9; // Changed from 8 to 9 to fix "one extra digit" issue
-export const DEFAULT_BLOCKS_RANGE = 18000; // 10 hours @ 2s/block
+export const DEFAULT_WINDOW_HOURS = 10; // Default window length; converted to blocks with the chain's block time
 export const DEFAULT_MIN_THRESHOLD = 4; // Adjusted threshold since precision changed
 export const DEFAULT_SCAN_CHUNK = 1000; // Default chunk size for iterative scanning
+export const LOG_CACHE_DB_NAME = 'lgns_log_cache'; // IndexedDB database holding decoded logs
+export const LOG_CACHE_CONFIRMATIONS = 64; // Blocks this close to the head are refetched on every sync instead of being cached as final
+export const SCAN_MAX_RETRIES = 3; // Retry passes over failed chunks before reporting a gap
+export const SCAN_RETRY_BASE_DELAY_MS = 500; // Doubled on every retry pass
+export const ADAPTIVE_MAX_CHUNK = 10000; // Upper bound the adaptive scanner may grow a chunk to
+export const ADAPTIVE_SPARSE_RESULTS = 500; // Chunks returning fewer logs than this double the next range
+export const RPC_PROBE_TIMEOUT_MS = 5000; // eth_blockNumber health probe timeout per endpoint
+export const RPC_MAX_HEAD_LAG = 20; // Endpoints further behind the best head are treated as unhealthy
+export const RPC_MAX_CONSECUTIVE_FAILURES = 3; // Failures in a row before an endpoint leaves the rotation
+export const DEFAULT_RPC_BATCH_SIZE = 5; // eth_getLogs calls packed into one JSON-RPC batch
+export const DEFAULT_RPC_MAX_IN_FLIGHT = 2; // Concurrent HTTP requests per sync
+export const SNAPSHOT_DB_NAME = 'lgns_snapshots'; // IndexedDB database holding completed sync results
+export const MAX_SNAPSHOTS = 50; // Oldest snapshots beyond this count are pruned
+export const BLOCK_TIME_DB_NAME = 'lgns_block_times'; // IndexedDB database caching block timestamps
+export const BLOCK_TIME_SAMPLE_INTERVAL = 300; // Blocks between timestamp samples; values in between are interpolated
+export const BLOCK_TIME_MAX_SAMPLES = 200; // Upper bound on samples per scan; fast chains get a wider interval
+export const DEFAULT_TIME_BUCKET_BLOCKS = 500; // Bucket width for the per-block time series
+export const LIVE_POLL_INTERVAL_MS = 6000; // eth_getLogs polling interval in live mode without WebSocket
+export const LIVE_RECHECK_INTERVAL_MS = 30000; // Recent-block re-check interval while subscribed over WebSocket
+export const LIVE_REORG_DEPTH = 64; // Blocks below the head re-checked on every sweep to catch reorgs
+export const LIVE_WS_RECONNECT_MS = 5000; // Delay before reopening a dropped WebSocket subscription
+export const LIVE_FEED_SIZE = 50; // Entries kept in the live event feed
+export const ALERT_LOG_SIZE = 200; // Alert log entries kept in localStorage
+export const ALERT_WEBHOOK_TIMEOUT_MS = 10000; // Webhook POSTs taking longer are reported as failed
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview'; // Analysis model when the settings leave it empty
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible API
+export const DEFAULT_OPENAI_MODEL = 'llama3.1'; // OpenAI-compatible model when the settings leave it empty
+export const ANALYSIS_TIMEOUT_MS = 120000; // Local models can take a while on the first request
+export const CHAT_MAX_TOOL_ROUNDS = 6; // Model turns per question that may call dataset tools before an answer is forced
+export const CHAT_ROW_LIMIT = 50; // Rows a dataset tool returns to the model; counts and aggregates cover every match
+
+// Built-in networks; the key is what TrackedEvent.chain refers to.
+export const CHAIN_PROFILES: Record<string, ChainProfile> = {
+  polygon: { key: 'polygon', name: 'Polygon', chainId: 137, blockTime: 2, explorerUrl: 'https://polygonscan.com', defaultRpc: DEFAULT_POLYGON_RPC },
+  ethereum: { key: 'ethereum', name: 'Ethereum', chainId: 1, blockTime: 12, explorerUrl: 'https://etherscan.io', defaultRpc: 'https://ethereum-rpc.publicnode.com' },
+  bsc: { key: 'bsc', name: 'BNB Smart Chain', chainId: 56, blockTime: 3, explorerUrl: 'https://bscscan.com', defaultRpc: 'https://bsc-rpc.publicnode.com' },
+  arbitrum: { key: 'arbitrum', name: 'Arbitrum One', chainId: 42161, blockTime: 0.25, explorerUrl: 'https://arbiscan.io', defaultRpc: 'https://arbitrum-one-rpc.publicnode.com' },
+  optimism: { key: 'optimism', name: 'OP Mainnet', chainId: 10, blockTime: 2, explorerUrl: 'https://optimistic.etherscan.io', defaultRpc: 'https://optimism-rpc.publicnode.com' },
+  base: { key: 'base', name: 'Base', chainId: 8453, blockTime: 2, explorerUrl: 'https://basescan.org', defaultRpc: 'https://base-rpc.publicnode.com' },
+  avalanche: { key: 'avalanche', name: 'Avalanche C-Chain', chainId: 43114, blockTime: 2, explorerUrl: 'https://snowtrace.io', defaultRpc: 'https://avalanche-c-chain-rpc.publicnode.com' },
+};
@@ -0,0 +1,34 @@
+// Minimal webhook receiver for trying alert delivery locally: prints every POSTed payload.
+// Usage: npm run mock:webhook [-- <port>], then use http://localhost:<port>/alerts as the webhook URL.
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+
+const server = createServer((req, res) => {
+  // The dashboard runs on another origin, so the JSON POST needs a CORS preflight answer.
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    try {
+      console.log(`[${new Date().toISOString()}] ${req.url}`, JSON.stringify(JSON.parse(body), null, 2));
+      res.writeHead(204).end();
+    } catch {
+      console.log(`[${new Date().toISOString()}] ${req.url} invalid JSON:`, body);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => console.log(`Mock webhook listening on http://localhost:${port}`));
@@ -0,0 +1,161 @@
+import { AddressBook, Watchlist } from '../types.ts';
+import { parseCsv, toCsv } from '../utils/csv.ts';
+
+const STORAGE_KEY = 'lgns_address_book';
+// Separates watchlist names inside the single CSV column.
+const CSV_LIST_SEPARATOR = '|';
+
+const EMPTY_BOOK: AddressBook = { labels: {}, watchlists: [] };
+
+const isAddress = (value: string) => /^0x[0-9a-f]{40}$/.test(value);
+
+export const createWatchlist = (name: string, addresses: string[] = []): Watchlist => ({
+  id: `watchlist-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  addresses,
+});
+
+export const loadAddressBook = (): AddressBook => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return { labels: stored.labels || {}, watchlists: stored.watchlists || [] };
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable address book:', error);
+  }
+  return EMPTY_BOOK;
+};
+
+export const saveAddressBook = (book: AddressBook) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(book));
+};
+
+/**
+ * Sets or clears (empty text) the label of an address.
+ */
+export const setLabel = (book: AddressBook, address: string, label: string): AddressBook => {
+  const labels = { ...book.labels };
+  const key = address.toLowerCase();
+  // Stored untrimmed so the field can be typed into word by word.
+  if (label.trim()) labels[key] = label;
+  else delete labels[key];
+  return { ...book, labels };
+};
+
+export const toggleWatchlistAddress = (book: AddressBook, watchlistId: string, address: string): AddressBook => {
+  const key = address.toLowerCase();
+  return {
+    ...book,
+    watchlists: book.watchlists.map(list => {
+      if (list.id !== watchlistId) return list;
+      return {
+        ...list,
+        addresses: list.addresses.includes(key)
+          ? list.addresses.filter(entry => entry !== key)
+          : [...list.addresses, key],
+      };
+    }),
+  };
+};
+
+/**
+ * Watchlist names per address, for table columns and filtering.
+ */
+export const watchlistsByAddress = (book: AddressBook): Map<string, string[]> => {
+  const index = new Map<string, string[]>();
+  book.watchlists.forEach(list => list.addresses.forEach(address => {
+    index.set(address, [...(index.get(address) || []), list.name]);
+  }));
+  return index;
+};
+
+export const exportAddressBookJson = (book: AddressBook) =>
+  JSON.stringify({
+    labels: book.labels,
+    watchlists: book.watchlists.map(({ name, addresses }) => ({ name, addresses })),
+  }, null, 2);
+
+/**
+ * One row per annotated address: `address,label,watchlists` with watchlist names joined by "|".
+ */
+export const exportAddressBookCsv = (book: AddressBook) => {
+  const memberships = watchlistsByAddress(book);
+  const addresses = Array.from(new Set([...Object.keys(book.labels), ...memberships.keys()])).sort();
+  return toCsv([
+    ['address', 'label', 'watchlists'],
+    ...addresses.map(address => [
+      address,
+      book.labels[address] || '',
+      (memberships.get(address) || []).join(CSV_LIST_SEPARATOR),
+    ]),
+  ]);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseJsonBook = (text: string): AddressBook => {
+  const parsed: unknown = JSON.parse(text);
+  if (!isRecord(parsed)) throw new Error('JSON address book must be an object with labels and watchlists.');
+  const labels: Record<string, string> = {};
+  Object.entries(isRecord(parsed.labels) ? parsed.labels : {}).forEach(([address, label]) => {
+    if (isAddress(address.toLowerCase()) && typeof label === 'string') labels[address.toLowerCase()] = label;
+  });
+  const watchlists: Watchlist[] = [];
+  (Array.isArray(parsed.watchlists) ? parsed.watchlists : []).forEach((list: unknown) => {
+    if (!isRecord(list) || typeof list.name !== 'string') return;
+    const addresses = (Array.isArray(list.addresses) ? list.addresses : [])
+      .map((address: unknown) => String(address).toLowerCase())
+      .filter(isAddress);
+    watchlists.push(createWatchlist(list.name, addresses));
+  });
+  return { labels, watchlists };
+};
+
+const parseCsvBook = (text: string): AddressBook => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(column => column.trim().toLowerCase());
+  const addressColumn = columns.indexOf('address');
+  if (addressColumn === -1) throw new Error('CSV needs an "address" column.');
+  const labelColumn = columns.indexOf('label');
+  const listColumn = columns.indexOf('watchlists');
+
+  const labels: Record<string, string> = {};
+  const lists = new Map<string, string[]>();
+  rows.forEach(row => {
+    const address = (row[addressColumn] || '').trim().toLowerCase();
+    if (!isAddress(address)) return;
+    const label = labelColumn === -1 ? '' : (row[labelColumn] || '').trim();
+    if (label) labels[address] = label;
+    if (listColumn === -1) return;
+    (row[listColumn] || '').split(CSV_LIST_SEPARATOR).map(name => name.trim()).filter(Boolean).forEach(name => {
+      lists.set(name, [...(lists.get(name) || []), address]);
+    });
+  });
+  return {
+    labels,
+    watchlists: Array.from(lists.entries()).map(([name, addresses]) => createWatchlist(name, addresses)),
+  };
+};
+
+/**
+ * Merges an exported JSON or CSV address book into `book`. Imported labels win; watchlists
+ * with the same name (case-insensitive) are united instead of duplicated.
+ */
+export const importAddressBook = (book: AddressBook, text: string): AddressBook => {
+  const trimmed = text.trim();
+  const incoming = trimmed.startsWith('{') ? parseJsonBook(trimmed) : parseCsvBook(trimmed);
+
+  const watchlists = [...book.watchlists];
+  incoming.watchlists.forEach(list => {
+    const index = watchlists.findIndex(existing => existing.name.toLowerCase() === list.name.toLowerCase());
+    if (index === -1) {
+      watchlists.push(list);
+    } else {
+      const existing = watchlists[index];
+      watchlists[index] = { ...existing, addresses: Array.from(new Set([...existing.addresses, ...list.addresses])) };
+    }
+  });
+  return { labels: { ...book.labels, ...incoming.labels }, watchlists };
+};
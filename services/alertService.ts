@@ -0,0 +1,117 @@
+import { ALERT_LOG_SIZE, ALERT_WEBHOOK_TIMEOUT_MS } from '../constants.ts';
+import { AlertEntry, AlertSettings } from '../types.ts';
+import { AlertMatch, DEFAULT_ALERT_RULES } from '../utils/alertRules.ts';
+
+const SETTINGS_KEY = 'lgns_alerts';
+const LOG_KEY = 'lgns_alert_log';
+const MAX_NOTIFICATIONS = 3;
+
+export interface AlertSource {
+  chain: string;
+  eventName: string;
+}
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${key}:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Loads alert settings. Rules added in later versions are appended with their defaults.
+ */
+export const loadAlertSettings = (): AlertSettings => {
+  const stored = read<Partial<AlertSettings>>(SETTINGS_KEY, {});
+  const rules = stored.rules || [];
+  return {
+    rules: [...rules, ...DEFAULT_ALERT_RULES.filter(rule => !rules.some(existing => existing.id === rule.id))],
+    notifications: stored.notifications ?? false,
+    webhookUrl: stored.webhookUrl || '',
+  };
+};
+
+export const saveAlertSettings = (settings: AlertSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadAlertLog = (): AlertEntry[] => read<AlertEntry[]>(LOG_KEY, []);
+
+export const saveAlertLog = (entries: AlertEntry[]) => {
+  localStorage.setItem(LOG_KEY, JSON.stringify(entries.slice(0, ALERT_LOG_SIZE)));
+};
+
+/**
+ * POSTs JSON to the webhook. Cross-origin receivers must answer the CORS preflight.
+ */
+export const postWebhook = async (url: string, payload: unknown): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(ALERT_WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Webhook answered HTTP ${response.status}`);
+};
+
+export const sendTestWebhook = (url: string, source: AlertSource) =>
+  postWebhook(url, {
+    type: 'test',
+    title: 'LGNS dashboard test alert',
+    message: 'Webhook delivery works.',
+    ...source,
+    firedAt: new Date().toISOString(),
+  });
+
+const showNotification = (match: AlertMatch) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(match.title, { body: match.message, tag: match.fingerprint });
+  } catch (error) {
+    console.warn('Browser notification failed:', error);
+  }
+};
+
+/**
+ * Delivers new matches through the enabled channels and returns them as log entries.
+ * A failed webhook is recorded on the entry instead of being thrown.
+ */
+export const deliverAlerts = async (
+  matches: AlertMatch[],
+  settings: AlertSettings,
+  source: AlertSource
+): Promise<AlertEntry[]> => {
+  const firedAt = Date.now();
+  const entries: AlertEntry[] = matches.map(match => ({ ...match, firedAt }));
+  if (settings.notifications) {
+    // A first run can match dozens of historical events; one summary beats a wall of popups.
+    if (matches.length > MAX_NOTIFICATIONS) {
+      showNotification({
+        ...matches[0],
+        fingerprint: `summary:${firedAt}`,
+        title: `${matches.length} new alerts`,
+        message: Array.from(new Set(matches.map(match => match.title))).join(', '),
+      });
+    } else {
+      matches.forEach(showNotification);
+    }
+  }
+
+  const url = settings.webhookUrl.trim();
+  if (url && entries.length > 0) {
+    try {
+      await postWebhook(url, {
+        type: 'alerts',
+        ...source,
+        alerts: entries.map(entry => ({ ...entry, firedAt: new Date(entry.firedAt).toISOString() })),
+      });
+    } catch (error: any) {
+      console.warn('Alert webhook failed:', error);
+      entries.forEach(entry => { entry.webhookError = error.message || 'Webhook failed'; });
+    }
+  }
+  return entries;
+};
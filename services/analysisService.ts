@@ -0,0 +1,72 @@
+import { ANALYSIS_TIMEOUT_MS, DEFAULT_OPENAI_BASE_URL } from '../constants.ts';
+import { AnalysisProviderKind, AnalysisResult, AnalysisSettings } from '../types.ts';
+import { AnalysisInput, analysisPrompt, buildAnalysisContext, parseAnalysisResponse } from '../utils/analysis.ts';
+import { createGeminiProvider } from './geminiService.ts';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleService.ts';
+
+const SETTINGS_KEY = 'lgns_analysis_settings';
+
+export interface AnalysisProvider {
+  kind: AnalysisProviderKind;
+  model: string;
+  /** Sends one prompt and resolves with the model's raw reply. */
+  complete: (prompt: string, signal?: AbortSignal) => Promise<string>;
+}
+
+export const ANALYSIS_PROVIDER_LABELS: Record<AnalysisProviderKind, string> = {
+  off: 'Off',
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible (Ollama, LM Studio…)',
+};
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'gemini',
+  model: '',
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: '',
+  autoRun: false,
+};
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_ANALYSIS_SETTINGS;
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${SETTINGS_KEY}:`, error);
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Provider for the current settings, or null when analysis is turned off.
+ */
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider | null => {
+  const model = settings.model.trim() || undefined;
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(model);
+    case 'openai': return createOpenAiCompatibleProvider({ baseUrl: settings.baseUrl.trim(), model, apiKey: settings.apiKey.trim() });
+    default: return null;
+  }
+};
+
+/**
+ * Sends the condensed dataset to the provider and returns the validated, structured reply.
+ */
+export const analyzeData = async (
+  provider: AnalysisProvider,
+  input: AnalysisInput,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  if (input.rows.length === 0) throw new Error('No rows pass the threshold, so there is nothing to analyse.');
+  const timeout = AbortSignal.timeout(ANALYSIS_TIMEOUT_MS);
+  const reply = await provider.complete(
+    analysisPrompt(buildAnalysisContext(input)),
+    signal ? AbortSignal.any([signal, timeout]) : timeout
+  );
+  const parsed = parseAnalysisResponse(reply, new Set<string>(input.rows.map(row => row.address.toLowerCase())));
+  return { ...parsed, provider: provider.kind, model: provider.model, generatedAt: Date.now() };
+};
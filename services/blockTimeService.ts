@@ -0,0 +1,168 @@
+import { BLOCK_TIME_DB_NAME, BLOCK_TIME_MAX_SAMPLES, BLOCK_TIME_SAMPLE_INTERVAL, DEFAULT_RPC_BATCH_SIZE } from '../constants.ts';
+import { ChainProfile } from '../types.ts';
+import { RpcPool } from './rpcPool.ts';
+import { openDatabase, txDone } from './idb.ts';
+
+const BLOCK_TIME_STORE = 'blockTimes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(BLOCK_TIME_DB_NAME, 2, (db) => {
+      // v1 keyed timestamps by block number alone, which collides across chains.
+      Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+      db.createObjectStore(BLOCK_TIME_STORE, { keyPath: ['chainId', 'blockNumber'] });
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const readCached = async (chainId: number, blocks: number[]): Promise<Map<number, number>> => {
+  const cached = new Map<number, number>();
+  try {
+    const db = await openDb();
+    const tx = db.transaction(BLOCK_TIME_STORE, 'readonly');
+    const store = tx.objectStore(BLOCK_TIME_STORE);
+    blocks.forEach(block => {
+      const request = store.get([chainId, block]);
+      request.onsuccess = () => {
+        if (request.result) cached.set(block, request.result.timestamp);
+      };
+    });
+    await txDone(tx);
+  } catch (error) {
+    console.warn('Block time cache unavailable:', error);
+  }
+  return cached;
+};
+
+const writeCached = async (chainId: number, entries: Map<number, number>) => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(BLOCK_TIME_STORE, 'readwrite');
+    const store = tx.objectStore(BLOCK_TIME_STORE);
+    entries.forEach((timestamp, blockNumber) => store.put({ chainId, blockNumber, timestamp }));
+    await txDone(tx);
+  } catch (error) {
+    console.warn('Failed to cache block times:', error);
+  }
+};
+
+/**
+ * Resolves unix timestamps (seconds) for the given blocks, serving repeats from IndexedDB
+ * and fetching the rest with batched `eth_getBlockByNumber` calls.
+ */
+export const fetchBlockTimestamps = async (
+  rpc: RpcPool,
+  chainId: number,
+  blocks: number[],
+  signal?: AbortSignal
+): Promise<Map<number, number>> => {
+  const unique = Array.from(new Set(blocks));
+  const timestamps = await readCached(chainId, unique);
+  const missing = unique.filter(block => !timestamps.has(block));
+
+  const fetched = new Map<number, number>();
+  for (let i = 0; i < missing.length; i += DEFAULT_RPC_BATCH_SIZE) {
+    const batch = missing.slice(i, i + DEFAULT_RPC_BATCH_SIZE);
+    const outcomes = await rpc.callBatch(
+      batch.map(block => ({ method: 'eth_getBlockByNumber', params: [`0x${block.toString(16)}`, false] })),
+      signal
+    );
+    outcomes.forEach((outcome, j) => {
+      if (outcome.ok && outcome.result?.timestamp) fetched.set(batch[j], parseInt(outcome.result.timestamp, 16));
+    });
+  }
+
+  if (fetched.size > 0) await writeCached(chainId, fetched);
+  fetched.forEach((timestamp, block) => timestamps.set(block, timestamp));
+  return timestamps;
+};
+
+/**
+ * Finds the first block whose timestamp is at or after `target` (unix seconds), or
+ * `head + 1` when the head itself is older. The chain's block time gives the first guess;
+ * the bracket around it is widened exponentially and then binary-searched, so an accurate
+ * profile resolves in a handful of lookups and a poor one still converges.
+ */
+export const findBlockAtTime = async (
+  rpc: RpcPool,
+  profile: ChainProfile,
+  target: number,
+  head: number,
+  headTime: number,
+  signal?: AbortSignal
+): Promise<number> => {
+  if (target > headTime) return head + 1;
+
+  const timeOf = async (block: number) => {
+    const timestamp = (await fetchBlockTimestamps(rpc, profile.chainId, [block], signal)).get(block);
+    if (timestamp === undefined) throw new Error(`Could not read the timestamp of block ${block}.`);
+    return timestamp;
+  };
+
+  // Invariant once bracketed: lo is before the target (or -1), hi is at/after it (or head + 1).
+  const guess = Math.min(head, Math.max(0, head - Math.ceil((headTime - target) / profile.blockTime)));
+  let step = Math.max(1, Math.ceil(60 / profile.blockTime));
+  let lo: number;
+  let hi: number;
+  if (await timeOf(guess) >= target) {
+    hi = guess;
+    lo = hi - step;
+    while (lo >= 0 && await timeOf(lo) >= target) {
+      hi = lo;
+      step *= 2;
+      lo = hi - step;
+    }
+    lo = Math.max(lo, -1);
+  } else {
+    lo = guess;
+    hi = lo + step;
+    while (hi <= head && await timeOf(hi) < target) {
+      lo = hi;
+      step *= 2;
+      hi = lo + step;
+    }
+    hi = Math.min(hi, head + 1);
+  }
+
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (await timeOf(mid) >= target) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+};
+
+/**
+ * Samples timestamps every BLOCK_TIME_SAMPLE_INTERVAL blocks across [from, to], widening the
+ * interval so long ranges on fast chains stay within BLOCK_TIME_MAX_SAMPLES.
+ */
+export const sampleBlockTimes = (rpc: RpcPool, chainId: number, from: number, to: number, signal?: AbortSignal) => {
+  const interval = Math.max(BLOCK_TIME_SAMPLE_INTERVAL, Math.ceil((to - from) / BLOCK_TIME_MAX_SAMPLES));
+  const blocks: number[] = [];
+  for (let block = from; block < to; block += interval) blocks.push(block);
+  blocks.push(to);
+  return fetchBlockTimestamps(rpc, chainId, blocks, signal);
+};
+
+/**
+ * Linearly interpolates a block's timestamp from the surrounding samples.
+ */
+export const interpolateBlockTime = (samples: Map<number, number>, block: number): number | null => {
+  if (samples.has(block)) return samples.get(block)!;
+  let below: number | null = null;
+  let above: number | null = null;
+  samples.forEach((_, sample) => {
+    if (sample <= block && (below === null || sample > below)) below = sample;
+    if (sample >= block && (above === null || sample < above)) above = sample;
+  });
+  if (below === null && above === null) return null;
+  if (below === null) return samples.get(above!)!;
+  if (above === null) return samples.get(below)!;
+  const t0 = samples.get(below)!;
+  const t1 = samples.get(above)!;
+  return Math.round(t0 + ((t1 - t0) * (block - below)) / (above - below));
+};
@@ -1,6 +1,189 @@
+import {
+  SCAN_MAX_RETRIES,
+  SCAN_RETRY_BASE_DELAY_MS,
+  ADAPTIVE_MAX_CHUNK,
+  ADAPTIVE_SPARSE_RESULTS,
+  DEFAULT_RPC_BATCH_SIZE
+} from '../constants.ts';
+import { LGNSEvent, BlockRange, ScanResult, ChainProfile, ScanWindow, ResolvedWindow } from '../types.ts';
+import { RpcPool, createRpcPool, isRangeLimitError, isResultLimitError } from './rpcPool.ts';
+import { JsonRpcRequest } from './jsonRpcClient.ts';
+import { EventSource, DEFAULT_TRACKED_EVENT, resolveEventSource } from './eventRegistry.ts';
+import { fetchBlockTimestamps, findBlockAtTime } from './blockTimeService.ts';
+import { windowTimeBounds } from '../utils/timeWindow.ts';
+import { sleep } from '../utils/sleep.ts';
 
-import { CONTRACT_ADDRESS, TOPIC_SIGNATURE, LGNS_PRECISION } from '../constants.ts';
-import { LGNSEvent } from '../types.ts';
+/**
+ * Reads the current chain head from the RPC node.
+ */
+export const fetchLatestBlock = async (rpc: RpcPool): Promise<number> => {
+  const result = await rpc.call<string>('eth_blockNumber', []);
+  return parseInt(result, 16);
+};
+
+/**
+ * Turns a scan window into an inclusive block range. Block-count windows end at the head;
+ * time windows are located by timestamp search and may lie entirely in the past.
+ */
+export const resolveScanWindow = async (
+  rpc: RpcPool,
+  profile: ChainProfile,
+  window: ScanWindow,
+  blockCount: number,
+  signal?: AbortSignal
+): Promise<ResolvedWindow> => {
+  const head = await fetchLatestBlock(rpc);
+  signal?.throwIfAborted();
+  const bounds = windowTimeBounds(window);
+
+  let start: number;
+  let end: number;
+  if (!bounds) {
+    start = Math.max(0, head - blockCount);
+    end = head;
+  } else {
+    const headTime = (await fetchBlockTimestamps(rpc, profile.chainId, [head], signal)).get(head);
+    if (headTime === undefined) throw new Error('Could not read the timestamp of the latest block.');
+    if (bounds.from > headTime) throw new Error('The selected window starts after the latest block.');
+    start = await findBlockAtTime(rpc, profile, bounds.from, head, headTime, signal);
+    end = Math.min(head, (await findBlockAtTime(rpc, profile, bounds.to, head, headTime, signal)) - 1);
+    if (end < start) throw new Error('No blocks were produced inside the selected window.');
+  }
+
+  const times = await fetchBlockTimestamps(rpc, profile.chainId, [start, end], signal);
+  return { start, end, startTime: times.get(start) ?? null, endTime: times.get(end) ?? null, head };
+};
+
+export interface ScanOptions {
+  onProgress?: (scanned: number, total: number) => void;
+  onChunk?: (from: number, to: number, events: LGNSEvent[]) => void | Promise<void>;
+  signal?: AbortSignal;
+  /** eth_getLogs calls packed into one JSON-RPC batch. */
+  batchSize?: number;
+}
+
+const getLogsRequest = (source: EventSource, from: number, to: number): JsonRpcRequest => ({
+  method: 'eth_getLogs',
+  params: [{
+    address: source.address,
+    fromBlock: `0x${from.toString(16)}`,
+    toBlock: `0x${to.toString(16)}`,
+    topics: [source.topic],
+  }],
+});
+
+/**
+ * Scans an explicit inclusive block range in chunks. Chunks are sent in waves of up to
+ * `rpc.maxInFlight` JSON-RPC batches of `batchSize` calls each. The chunk size adapts to the
+ * provider: it is halved whenever a range-limit error comes back and doubled again while
+ * results stay sparse. A block-range limit caps it for the rest of the scan; a result-count
+ * limit only holds while the logs stay dense. Chunks that fail for other reasons are queued
+ * and retried with exponential backoff; whatever still fails is returned as `failedRanges`. `onChunk` is only
+ * invoked for chunks the node answered successfully, so callers can persist what was covered
+ * and resume after an abort.
+ */
+export const fetchLogsInRange = async (
+  rpc: RpcPool,
+  source: EventSource,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number,
+  { onProgress, onChunk, signal, batchSize = DEFAULT_RPC_BATCH_SIZE }: ScanOptions = {}
+): Promise<ScanResult> => {
+  const allEvents: LGNSEvent[] = [];
+  const totalToScan = toBlock - fromBlock + 1;
+  const maxChunk = Math.max(chunkSize, ADAPTIVE_MAX_CHUNK);
+  const waveSize = Math.max(1, batchSize) * rpc.maxInFlight;
+  let currentChunk = Math.max(1, chunkSize);
+  // Smallest size a block-range error came back for (permanent), the size a result-count error
+  // came back for (relaxed again while results are sparse) and the largest size that succeeded
+  // since the last failure. With a limit known the chunk grows by bisecting toward it.
+  let rangeLimit = Infinity;
+  let resultLimit = Infinity;
+  let largestOk = 0;
+  let scanned = 0;
+
+  // Drains the queue wave by wave and returns the sub-ranges that failed.
+  const scanQueue = async (ranges: BlockRange[], reportProgress: boolean): Promise<BlockRange[]> => {
+    const queue = ranges.map(([from, to]): BlockRange => [from, to]);
+    const failed: BlockRange[] = [];
+
+    while (queue.length > 0) {
+      signal?.throwIfAborted();
+
+      // Reporting progress
+      if (reportProgress && onProgress) {
+        onProgress(scanned, totalToScan);
+      }
+
+      const pieces: BlockRange[] = [];
+      while (pieces.length < waveSize && queue.length > 0) {
+        const head = queue[0];
+        const pieceTo = Math.min(head[0] + currentChunk - 1, head[1]);
+        pieces.push([head[0], pieceTo]);
+        if (pieceTo >= head[1]) queue.shift();
+        else head[0] = pieceTo + 1;
+      }
+
+      const batches: BlockRange[][] = [];
+      for (let i = 0; i < pieces.length; i += batchSize) batches.push(pieces.slice(i, i + batchSize));
+      const outcomes = (await Promise.all(
+        batches.map(batch => rpc.callBatch(batch.map(([from, to]) => getLogsRequest(source, from, to)), signal))
+      )).flat();
+
+      const limited: BlockRange[] = [];
+      let rangeLimited = false;
+      let allSparse = true;
+      for (let i = 0; i < pieces.length; i++) {
+        const [from, to] = pieces[i];
+        const outcome = outcomes[i];
+        if (outcome.ok) {
+          const chunkEvents: LGNSEvent[] = outcome.result.map(source.decode);
+          if (onChunk) await onChunk(from, to, chunkEvents);
+          allEvents.push(...chunkEvents);
+          largestOk = Math.max(largestOk, to - from + 1);
+          if (chunkEvents.length >= ADAPTIVE_SPARSE_RESULTS) allSparse = false;
+        } else if (isRangeLimitError(outcome.error.message) && to > from) {
+          limited.push([from, to]);
+          if (!isResultLimitError(outcome.error.message)) rangeLimited = true;
+          continue;
+        } else {
+          console.warn(`Partial scan error at blocks ${from}-${to}:`, outcome.error.message);
+          failed.push([from, to]);
+        }
+        if (reportProgress) scanned += to - from + 1;
+      }
+
+      if (limited.length > 0) {
+        const smallest = Math.min(...limited.map(([from, to]) => to - from + 1));
+        if (rangeLimited) rangeLimit = Math.min(rangeLimit, smallest);
+        else resultLimit = Math.min(resultLimit, smallest);
+        // A size that worked elsewhere in the range no longer vouches for this stretch.
+        if (smallest <= largestOk) largestOk = 0;
+        currentChunk = Math.max(1, Math.min(rangeLimit - 1, Math.floor(smallest / 2)));
+        queue.unshift(...limited);
+      } else if (allSparse) {
+        resultLimit = resultLimit * 2 > maxChunk ? Infinity : resultLimit * 2;
+        const limit = Math.min(rangeLimit, resultLimit);
+        const grown = limit === Infinity ? currentChunk * 2 : Math.floor((currentChunk + limit) / 2);
+        currentChunk = Math.max(currentChunk, Math.min(maxChunk, limit - 1, Math.max(grown, largestOk)));
+      }
+    }
+    return failed;
+  };
+
+  let failed = await scanQueue([[fromBlock, toBlock]], true);
+
+  for (let attempt = 0; attempt < SCAN_MAX_RETRIES && failed.length > 0; attempt++) {
+    await sleep(SCAN_RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+    failed = await scanQueue(failed, false);
+  }
+
+  // Final progress update
+  if (onProgress) onProgress(totalToScan, totalToScan);
+
+  return { events: allEvents, failedRanges: failed, chunkSize: currentChunk };
+};
 
 export const fetchPolygonLogs = async (
   rpcUrl: string, 
@@ -9,77 +192,12 @@ export const fetchPolygonLogs = async (
   onProgress?: (scanned: number, total: number) => void
 ): Promise<LGNSEvent[]> => {
   try {
-    const blockRes = await fetch(rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'eth_blockNumber',
-        params: [],
-      }),
-    });
-    const blockJson = await blockRes.json();
-    if (blockJson.error) throw new Error(`RPC Error: ${blockJson.error.message}`);
-    
-    const latestBlock = parseInt(blockJson.result, 16);
+    const rpc = createRpcPool([rpcUrl]);
+    const latestBlock = await fetchLatestBlock(rpc);
     const startBlock = Math.max(0, latestBlock - totalBlockCount);
-    
-    let allEvents: LGNSEvent[] = [];
-    const totalToScan = latestBlock - startBlock;
-    
-    for (let currentFrom = startBlock; currentFrom < latestBlock; currentFrom += chunkSize) {
-      const currentTo = Math.min(currentFrom + chunkSize - 1, latestBlock);
-      
-      // Reporting progress
-      if (onProgress) {
-        onProgress(currentFrom - startBlock, totalToScan);
-      }
-      
-      const logsRes = await fetch(rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 2,
-          method: 'eth_getLogs',
-          params: [{
-            address: CONTRACT_ADDRESS,
-            fromBlock: `0x${currentFrom.toString(16)}`,
-            toBlock: `0x${currentTo.toString(16)}`,
-            topics: [TOPIC_SIGNATURE],
-          }],
-        }),
-      });
-
-      const logsJson = await logsRes.json();
-      if (logsJson.error) {
-        console.warn(`Partial scan error at blocks ${currentFrom}-${currentTo}:`, logsJson.error.message);
-        continue;
-      }
-
-      const chunkEvents: LGNSEvent[] = logsJson.result.map((log: any) => {
-        const rawAddr = log.topics[1];
-        const address = '0x' + rawAddr.slice(26);
-        const rawData = log.data.replace('0x', '');
-        const bigIntVal = BigInt(`0x${rawData}`);
-        const amount = Number(bigIntVal) / Math.pow(10, LGNS_PRECISION);
-
-        return {
-          address: address.toLowerCase(),
-          amount,
-          blockNumber: parseInt(log.blockNumber, 16),
-          transactionHash: log.transactionHash,
-        };
-      });
-      
-      allEvents = [...allEvents, ...chunkEvents];
-    }
-    
-    // Final progress update
-    if (onProgress) onProgress(totalToScan, totalToScan);
-
-    return allEvents;
+    const source = resolveEventSource(DEFAULT_TRACKED_EVENT);
+    const { events } = await fetchLogsInRange(rpc, source, startBlock, latestBlock, chunkSize, { onProgress });
+    return events;
   } catch (error) {
     console.error('Failed to fetch blockchain logs:', error);
     throw error;
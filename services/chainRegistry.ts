@@ -0,0 +1,66 @@
+import { CHAIN_PROFILES, DEFAULT_CHAIN, DEFAULT_WINDOW_HOURS } from '../constants.ts';
+import { ChainProfile, ChainSettings } from '../types.ts';
+
+const STORAGE_KEY = 'lgns_chain_settings';
+
+/**
+ * Looks up a built-in chain profile by key.
+ */
+export const getChainProfile = (key: string): ChainProfile => {
+  const profile = CHAIN_PROFILES[key];
+  if (!profile) {
+    throw new Error(`Unknown chain "${key}". Expected one of: ${Object.keys(CHAIN_PROFILES).join(', ')}.`);
+  }
+  return profile;
+};
+
+/**
+ * Number of blocks the chain produces in the given number of hours.
+ */
+export const blocksForHours = (profile: ChainProfile, hours: number) =>
+  Math.round((hours * 3600) / profile.blockTime);
+
+export const defaultChainSettings = (profile: ChainProfile): ChainSettings => ({
+  rpcs: profile.defaultRpc,
+  explorerUrl: profile.explorerUrl,
+  blockRange: blocksForHours(profile, DEFAULT_WINDOW_HOURS),
+});
+
+/**
+ * Loads per-chain overrides. Settings saved before chain profiles existed are adopted
+ * as the default chain's overrides.
+ */
+export const loadChainSettings = (): Record<string, ChainSettings> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.warn('Ignoring unreadable chain settings:', error);
+  }
+
+  const legacyRpcs = localStorage.getItem('lgns_rpcs') || localStorage.getItem('lgns_rpc');
+  const legacyRange = Number(localStorage.getItem('lgns_range'));
+  const legacyExplorer = localStorage.getItem('lgns_explorer');
+  if (!legacyRpcs && !legacyRange && !legacyExplorer) return {};
+
+  const defaults = defaultChainSettings(CHAIN_PROFILES[DEFAULT_CHAIN]);
+  return {
+    [DEFAULT_CHAIN]: {
+      rpcs: legacyRpcs || defaults.rpcs,
+      explorerUrl: legacyExplorer || defaults.explorerUrl,
+      blockRange: legacyRange || defaults.blockRange,
+    },
+  };
+};
+
+export const saveChainSettings = (settings: Record<string, ChainSettings>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Effective settings for a chain: stored overrides on top of the profile defaults.
+ */
+export const chainSettingsFor = (settings: Record<string, ChainSettings>, profile: ChainProfile): ChainSettings => ({
+  ...defaultChainSettings(profile),
+  ...settings[profile.key],
+});
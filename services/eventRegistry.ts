@@ -0,0 +1,110 @@
+import { CONTRACT_ADDRESS, TOPIC_SIGNATURE, LGNS_PRECISION, DEFAULT_CHAIN } from '../constants.ts';
+import { LGNSEvent, TrackedEvent } from '../types.ts';
+import { getChainProfile } from './chainRegistry.ts';
+import { parseEventFragment, eventTopic, decodeEventLog, AbiEventFragment } from '../utils/abi.ts';
+
+const STORAGE_KEY = 'lgns_tracked_events';
+
+/**
+ * The original LGNS output event. Its canonical signature is not published, so topic0 is
+ * pinned; the fragment only describes the layout (recipient in topics[1], amount in data).
+ */
+export const DEFAULT_TRACKED_EVENT: TrackedEvent = {
+  id: 'lgns',
+  name: 'LGNS Output',
+  contractAddress: CONTRACT_ADDRESS,
+  abi: 'event Output(address indexed account, uint256 amount)',
+  topic: TOPIC_SIGNATURE,
+  chain: DEFAULT_CHAIN,
+  decimals: LGNS_PRECISION,
+  addressParam: 'account',
+  amountParam: 'amount',
+};
+
+export interface EventSource {
+  id: string;
+  address: string;
+  topic: string;
+  chain: string;
+  chainId: number;
+  decimals: number;
+  fragment: AbiEventFragment;
+  decode: (log: any) => LGNSEvent;
+}
+
+export const loadTrackedEvents = (): TrackedEvent[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(stored) && stored.length > 0) return stored;
+  } catch (error) {
+    console.warn('Ignoring unreadable tracked event registry:', error);
+  }
+  return [DEFAULT_TRACKED_EVENT];
+};
+
+export const saveTrackedEvents = (events: TrackedEvent[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+};
+
+/**
+ * Compiles a tracked event into what the scanner needs: filter address, topic0 and a
+ * decoder mapping each raw log onto an LGNSEvent. Throws with a readable message when the
+ * definition is unusable.
+ */
+export const resolveEventSource = (tracked: TrackedEvent): EventSource => {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(tracked.contractAddress.trim())) {
+    throw new Error(`"${tracked.name}": contract address must be a 0x-prefixed 20-byte hex string.`);
+  }
+  if (!Number.isInteger(tracked.decimals) || tracked.decimals < 0 || tracked.decimals > 36) {
+    throw new Error(`"${tracked.name}": decimals must be an integer between 0 and 36.`);
+  }
+
+  let chainId: number;
+  try {
+    chainId = getChainProfile(tracked.chain || DEFAULT_CHAIN).chainId;
+  } catch (error: any) {
+    throw new Error(`"${tracked.name}": ${error.message}`);
+  }
+
+  let fragment: AbiEventFragment;
+  try {
+    fragment = parseEventFragment(tracked.abi);
+  } catch (error: any) {
+    throw new Error(`"${tracked.name}": ${error.message}`);
+  }
+
+  const addressInput = tracked.addressParam
+    ? fragment.inputs.find(input => input.name === tracked.addressParam)
+    : fragment.inputs.find(input => input.type === 'address');
+  const amountInput = tracked.amountParam
+    ? fragment.inputs.find(input => input.name === tracked.amountParam)
+    : fragment.inputs.find(input => input.type.startsWith('uint'));
+  if (!addressInput || addressInput.type !== 'address') {
+    throw new Error(`"${tracked.name}": no address input${tracked.addressParam ? ` named "${tracked.addressParam}"` : ''}.`);
+  }
+  if (!amountInput || !/^u?int\d*$/.test(amountInput.type)) {
+    throw new Error(`"${tracked.name}": no integer amount input${tracked.amountParam ? ` named "${tracked.amountParam}"` : ''}.`);
+  }
+
+  const topic = (tracked.topic?.trim() || eventTopic(fragment)).toLowerCase();
+
+  return {
+    id: tracked.id,
+    address: tracked.contractAddress.trim().toLowerCase(),
+    topic,
+    chain: tracked.chain || DEFAULT_CHAIN,
+    chainId,
+    decimals: tracked.decimals,
+    fragment,
+    decode: (log: any): LGNSEvent => {
+      const values = decodeEventLog(fragment, log);
+      return {
+        address: String(values[addressInput.name]).toLowerCase(),
+        amount: values[amountInput.name] as bigint,
+        blockNumber: parseInt(log.blockNumber, 16),
+        transactionHash: log.transactionHash,
+        logIndex: parseInt(log.logIndex, 16) || 0,
+      };
+    },
+  };
+};
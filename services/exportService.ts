@@ -0,0 +1,221 @@
+import { BlockRange, ChainProfile, ExportFormat, ExportMetadata, MergedData, ResolvedWindow, TrackedEvent } from '../types.ts';
+import { toCsv } from '../utils/csv.ts';
+import { toDecimalString } from '../utils/amount.ts';
+import { AmountMetric, metricValue } from '../utils/aggregation.ts';
+
+export interface ExportContext {
+  decimals: number;
+  labels: Record<string, string>;
+  memberships: Map<string, string[]>;
+}
+
+export interface RenderedExport {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface ExportScope {
+  tracked: TrackedEvent;
+  profile: ChainProfile;
+  rpcs: string[];
+  /** Snapshots saved before date-range windows only carry the block numbers. */
+  range: Partial<ResolvedWindow> | null;
+  threshold: number;
+  metric: string;
+  snapshotId?: number | null;
+  gaps: BlockRange[];
+  rowCount: number;
+}
+
+export interface ManifestVerification {
+  valid: boolean;
+  expected: string | null;
+  actual: string;
+  rows: { address: string; amount: bigint }[];
+  metadata: Record<string, string>;
+}
+
+const MANIFEST_TITLE = '# LGNS payout manifest v1';
+const MANIFEST_HEADER = 'address,amount_raw';
+const CHECKSUM_PREFIX = '# sha256: ';
+// Excel only detects UTF-8 in CSV files that start with a byte order mark.
+const UTF8_BOM = '\uFEFF';
+
+const ROW_HEADERS = [
+  'Wallet Address', 'Label', 'Watchlists', 'Level', 'DAO Reward', 'Total Spider Reward', 'Total Spider Reward (raw)',
+  'Events', 'Min Event', 'Max Event', 'Latest Event', 'Latest Tx', 'First Block', 'Last Block', 'Reward Error'
+];
+
+const metadataEntries = (meta: ExportMetadata): [string, string][] => [
+  ['generated', meta.generatedAt],
+  ['event', meta.eventName],
+  ['chain', `${meta.chain} (${meta.chainId})`],
+  ['contract', meta.contract],
+  ['rpc', meta.rpcs.join(' ')],
+  ['blocks', `${meta.blockStart}-${meta.blockEnd}`],
+  ['start_time', meta.startTime || ''],
+  ['end_time', meta.endTime || ''],
+  ['threshold', String(meta.threshold)],
+  ['metric', meta.metric],
+  ['decimals', String(meta.decimals)],
+  ['snapshot', meta.snapshotId === null ? '' : String(meta.snapshotId)],
+  ['gaps', meta.gaps.map(([from, to]) => `${from}-${to}`).join(' ')],
+  ['rows', String(meta.rowCount)],
+];
+
+const toIsoTime = (seconds?: number | null) =>
+  seconds === null || seconds === undefined ? null : new Date(seconds * 1000).toISOString();
+
+export const createExportMetadata = ({
+  tracked, profile, rpcs, range, threshold, metric, snapshotId = null, gaps, rowCount
+}: ExportScope): ExportMetadata => ({
+  generatedAt: new Date().toISOString(),
+  eventName: tracked.name,
+  chain: profile.name,
+  chainId: profile.chainId,
+  contract: tracked.contractAddress.toLowerCase(),
+  rpcs,
+  blockStart: range?.start ?? 0,
+  blockEnd: range?.end ?? 0,
+  startTime: toIsoTime(range?.startTime),
+  endTime: toIsoTime(range?.endTime),
+  threshold,
+  metric,
+  decimals: tracked.decimals,
+  snapshotId,
+  gaps,
+  rowCount,
+});
+
+/**
+ * One export record per row. Amounts are exact decimal strings, plus the raw integer total.
+ */
+export const toExportRecord = (row: MergedData, { decimals, labels, memberships }: ExportContext) => ({
+  address: row.address,
+  label: labels[row.address] || '',
+  watchlists: memberships.get(row.address) || [],
+  level: row.level,
+  daoReward: row.reward,
+  totalLgns: toDecimalString(row.totalLgns, decimals),
+  totalLgnsRaw: row.totalLgns.toString(),
+  eventCount: row.eventCount,
+  minLgns: toDecimalString(row.minLgns, decimals),
+  maxLgns: toDecimalString(row.maxLgns, decimals),
+  latestLgns: toDecimalString(row.latestLgns, decimals),
+  latestTxHash: row.latestTxHash,
+  firstBlock: row.firstBlock,
+  lastBlock: row.lastBlock,
+  rewardError: row.error || null,
+});
+
+/**
+ * RFC 4180 CSV with a UTF-8 BOM. The header is the first line so spreadsheets and CSV readers
+ * see a plain table; the scan metadata follows it as `# key,value` rows after an empty line.
+ */
+export const toCsvExport = (rows: MergedData[], meta: ExportMetadata, context: ExportContext) => {
+  const table = rows.map(row => {
+    const record = toExportRecord(row, context);
+    return [
+      record.address, record.label, record.watchlists.join('|'), record.level, record.daoReward.toFixed(4),
+      record.totalLgns, record.totalLgnsRaw, record.eventCount, record.minLgns, record.maxLgns, record.latestLgns,
+      record.latestTxHash, record.firstBlock, record.lastBlock, record.rewardError || ''
+    ];
+  });
+  return UTF8_BOM + toCsv([
+    ROW_HEADERS,
+    ...table,
+    [],
+    ...metadataEntries(meta).map(([key, value]) => [`# ${key}`, value]),
+  ]);
+};
+
+export const toJsonExport = (rows: MergedData[], meta: ExportMetadata, context: ExportContext) =>
+  JSON.stringify({ metadata: meta, rows: rows.map(row => toExportRecord(row, context)) }, null, 2);
+
+/**
+ * Newline-delimited JSON: a `metadata` line followed by one `row` line per address.
+ */
+export const toNdjsonExport = (rows: MergedData[], meta: ExportMetadata, context: ExportContext) =>
+  [
+    JSON.stringify({ type: 'metadata', ...meta }),
+    ...rows.map(row => JSON.stringify({ type: 'row', ...toExportRecord(row, context) })),
+  ].join('\n') + '\n';
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Payout manifest: metadata comments, `address,amount_raw` lines for every row with a positive
+ * amount, and a trailing SHA-256 over everything above it. Editing any line breaks the checksum.
+ */
+export const toPayoutManifest = async (rows: MergedData[], meta: ExportMetadata, metric: AmountMetric) => {
+  if (metric === 'eventCount') throw new Error('Payout manifests need a token amount metric, not the event count.');
+  const payouts = rows
+    .map(row => ({ address: row.address, amount: metricValue(row, metric) }))
+    .filter(payout => payout.amount > 0n);
+  const total = payouts.reduce((acc, payout) => acc + payout.amount, 0n);
+
+  const body = [
+    MANIFEST_TITLE,
+    ...metadataEntries({ ...meta, metric, rowCount: payouts.length }).map(([key, value]) => `# ${key}: ${value}`),
+    `# total_raw: ${total}`,
+    MANIFEST_HEADER,
+    ...payouts.map(payout => `${payout.address},${payout.amount}`),
+  ].join('\n') + '\n';
+  return `${body}${CHECKSUM_PREFIX}${await sha256Hex(body)}\n`;
+};
+
+/**
+ * Recomputes a payout manifest's checksum. Line endings are normalised first, so a manifest
+ * that only went through a CRLF conversion still verifies.
+ */
+export const verifyPayoutManifest = async (text: string): Promise<ManifestVerification> => {
+  const normalised = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const checksumStart = normalised.lastIndexOf(CHECKSUM_PREFIX);
+  const body = checksumStart === -1 ? normalised : normalised.slice(0, checksumStart);
+  const expected = checksumStart === -1 ? null : normalised.slice(checksumStart + CHECKSUM_PREFIX.length).trim().toLowerCase();
+  const actual = await sha256Hex(body);
+
+  const metadata: Record<string, string> = {};
+  const rows: { address: string; amount: bigint }[] = [];
+  body.split('\n').forEach(line => {
+    const meta = /^# ([a-z_]+): ?(.*)$/.exec(line);
+    if (meta) {
+      metadata[meta[1]] = meta[2];
+      return;
+    }
+    const payout = /^(0x[0-9a-fA-F]{40}),(\d+)$/.exec(line.trim());
+    if (payout) rows.push({ address: payout[1].toLowerCase(), amount: BigInt(payout[2]) });
+  });
+
+  return { valid: expected === actual, expected, actual, rows, metadata };
+};
+
+/**
+ * Renders rows in `format` together with the file name and MIME type to save it under.
+ */
+export const renderExport = async (
+  format: ExportFormat,
+  rows: MergedData[],
+  meta: ExportMetadata,
+  context: ExportContext,
+  metric: AmountMetric,
+  eventId: string
+): Promise<RenderedExport> => {
+  const base = `lgns_distribution_${eventId}_${meta.blockStart}-${meta.blockEnd}`;
+  switch (format) {
+    case 'json': return { filename: `${base}.json`, content: toJsonExport(rows, meta, context), mimeType: 'application/json' };
+    case 'ndjson': return { filename: `${base}.ndjson`, content: toNdjsonExport(rows, meta, context), mimeType: 'application/x-ndjson' };
+    case 'manifest': return {
+      filename: `lgns_payout_${eventId}_${meta.blockStart}-${meta.blockEnd}.txt`,
+      content: await toPayoutManifest(rows, meta, metric),
+      mimeType: 'text/plain;charset=utf-8;',
+    };
+    default: return { filename: `${base}.csv`, content: toCsvExport(rows, meta, context), mimeType: 'text/csv;charset=utf-8;' };
+  }
+};
+
+export const isPayoutManifest = (text: string) => text.replace(/^\uFEFF/, '').startsWith(MANIFEST_TITLE);
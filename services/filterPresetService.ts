@@ -0,0 +1,36 @@
+import { FilterPreset, FilterSpec } from '../types.ts';
+import { EMPTY_FILTER } from '../utils/filters.ts';
+
+const PRESETS_KEY = 'lgns_filter_presets';
+const ACTIVE_KEY = 'lgns_filter';
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const loadFilterPresets = (): FilterPreset[] => read<FilterPreset[]>(PRESETS_KEY, []);
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Adds a preset, replacing any existing preset with the same name.
+ */
+export const upsertPreset = (presets: FilterPreset[], name: string, spec: FilterSpec): FilterPreset[] => [
+  ...presets.filter(preset => preset.name !== name),
+  { name, spec },
+];
+
+/** The filter on screen survives reloads; it is saved on every change. */
+export const loadActiveFilter = (): FilterSpec => read<FilterSpec>(ACTIVE_KEY, EMPTY_FILTER);
+
+export const saveActiveFilter = (spec: FilterSpec) => {
+  localStorage.setItem(ACTIVE_KEY, JSON.stringify(spec));
+};
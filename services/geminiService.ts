@@ -1,38 +1,175 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { MergedData } from "../types.ts";
+import { Content, FunctionDeclaration, GoogleGenAI, Type } from "@google/genai";
+import { CHAT_MAX_TOOL_ROUNDS, DEFAULT_GEMINI_MODEL } from "../constants.ts";
+import { ChatMessage, ChatToolCall } from "../types.ts";
+import { DatasetToolContext, runDatasetTool } from "../utils/datasetTools.ts";
+import { AnalysisProvider } from "./analysisService.ts";
+
+// Mirrors the JSON shape requested in the prompt so Gemini enforces it server-side.
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          detail: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['info', 'notice', 'warning'] },
+        },
+        required: ['title', 'detail', 'severity'],
+      },
+    },
+    flaggedAddresses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { address: { type: Type.STRING }, reason: { type: Type.STRING } },
+        required: ['address', 'reason'],
+      },
+    },
+    confidence: { type: Type.NUMBER },
+  },
+  required: ['summary', 'findings', 'flaggedAddresses', 'confidence'],
+};
 
 /**
- * Generates an AI summary of the provided data using Gemini 3 Flash.
+ * Analysis provider backed by the Gemini API, using the key the build injects.
  */
-export const analyzeData = async (data: MergedData[]) => {
-  // Use process.env.API_KEY directly as per the @google/genai initialization guidelines.
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  if (!data || data.length === 0) return "Insufficient data for detailed analysis.";
-
-  const summary = data.map(d => ({
-    addr: d.address.slice(0, 8),
-    spiderReward: d.latestLgns.toFixed(2),
-    level: d.level,
-    daoReward: d.reward.toFixed(2)
-  })).slice(0, 8);
-
-  const prompt = `Review this Polygon LGNS production summary. 
-  "spiderReward" is the production volume from logs. 
-  "daoReward" is the community level reward. 
-  Data: ${JSON.stringify(summary)}. 
-  Briefly summarize the activity level and distribution in 2-3 sentences.`;
-
-  try {
+export const createGeminiProvider = (model = DEFAULT_GEMINI_MODEL): AnalysisProvider => ({
+  kind: 'gemini',
+  model,
+  complete: async (prompt, signal) => {
+    // Use process.env.API_KEY directly as per the @google/genai initialization guidelines.
+    if (!process.env.API_KEY) throw new Error('GEMINI_API_KEY is not set for this build.');
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model,
       contents: prompt,
+      config: { responseMimeType: 'application/json', responseSchema: ANALYSIS_SCHEMA, abortSignal: signal },
     });
     // Access response.text property directly as per guidelines.
-    return response.text || "No analysis generated.";
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return "Analysis service temporarily unreachable.";
+    return response.text || '';
+  },
+});
+
+const FILTER_PROPERTIES = {
+  minLevel: { type: Type.NUMBER, description: 'Minimum level, inclusive.' },
+  maxLevel: { type: Type.NUMBER, description: 'Maximum level, inclusive.' },
+  minSpiderReward: { type: Type.NUMBER, description: 'Minimum spider reward (total output over the window) in tokens, inclusive.' },
+  maxSpiderReward: { type: Type.NUMBER, description: 'Maximum spider reward in tokens, inclusive.' },
+  minDaoReward: { type: Type.NUMBER, description: 'Minimum DAO reward, inclusive.' },
+  maxDaoReward: { type: Type.NUMBER, description: 'Maximum DAO reward, inclusive. Use 0 for "no DAO reward".' },
+  minEvents: { type: Type.NUMBER, description: 'Minimum number of output events, inclusive.' },
+  maxEvents: { type: Type.NUMBER, description: 'Maximum number of output events, inclusive.' },
+  addresses: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Only these addresses.' },
+};
+
+const FIELD_ENUM = ['level', 'spiderReward', 'daoReward', 'events'];
+
+const DATASET_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'query_rows',
+    description: 'Lists the rows matching every given filter, sorted, with the total match count.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...FILTER_PROPERTIES,
+        sortBy: { type: Type.STRING, enum: FIELD_ENUM },
+        order: { type: Type.STRING, enum: ['asc', 'desc'] },
+        limit: { type: Type.NUMBER, description: 'Rows to return; the match count always covers every row.' },
+      },
+    },
+  },
+  {
+    name: 'aggregate_rows',
+    description: 'Counts rows or computes sum, avg, min or max of one field over the rows matching the filters, optionally per level.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...FILTER_PROPERTIES,
+        field: { type: Type.STRING, enum: FIELD_ENUM },
+        operation: { type: Type.STRING, enum: ['count', 'sum', 'avg', 'min', 'max'] },
+        groupBy: { type: Type.STRING, enum: ['none', 'level'] },
+      },
+      required: ['operation'],
+    },
+  },
+  {
+    name: 'get_address',
+    description: 'Returns every known field of one address.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { address: { type: Type.STRING } },
+      required: ['address'],
+    },
+  },
+];
+
+const DATASET_TOOL_NAMES = new Set<string>(DATASET_TOOL_DECLARATIONS.map(declaration => declaration.name!));
+
+const CHAT_INSTRUCTIONS = `You answer questions about a table of addresses from an on-chain token distribution.
+Each row has: level and DAO reward (from the DAO reward API), spider reward (total tokens the address received over the scan window) and events (number of output events).
+Always answer from tool results, never from assumptions; call the tools as often as needed. Rows whose rewardStatus is not "ok" have unknown level and DAO reward, mention them when relevant.
+Answer briefly in plain text and state the number of matching rows.`;
+
+export interface DatasetAnswer {
+  text: string;
+  toolCalls: ChatToolCall[];
+  /** Addresses the answer is based on: the rows matched by the last data tool call. */
+  addresses: string[];
+}
+
+/**
+ * Answers a question about the dataset through Gemini function calling: the model picks
+ * filters and aggregations, the dashboard runs them over the in-memory rows.
+ */
+export const askDataset = async (
+  question: string,
+  history: ChatMessage[],
+  context: DatasetToolContext,
+  model = DEFAULT_GEMINI_MODEL,
+  signal?: AbortSignal
+): Promise<DatasetAnswer> => {
+  if (!process.env.API_KEY) throw new Error('GEMINI_API_KEY is not set for this build.');
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const contents: Content[] = [
+    ...history.filter(message => !message.error).map(message => ({
+      role: message.role === 'user' ? 'user' : 'model',
+      parts: [{ text: message.text }],
+    })),
+    { role: 'user', parts: [{ text: question }] },
+  ];
+  const toolCalls: ChatToolCall[] = [];
+  let addresses: string[] = [];
+
+  for (let round = 0; round <= CHAT_MAX_TOOL_ROUNDS; round++) {
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: {
+        systemInstruction: CHAT_INSTRUCTIONS,
+        // The last round withholds the tools so the model has to answer with what it has.
+        tools: round < CHAT_MAX_TOOL_ROUNDS ? [{ functionDeclarations: DATASET_TOOL_DECLARATIONS }] : undefined,
+        abortSignal: signal,
+      },
+    });
+    const calls = response.functionCalls || [];
+    if (calls.length === 0) return { text: response.text || 'No answer generated.', toolCalls, addresses };
+
+    contents.push(response.candidates?.[0]?.content || { role: 'model', parts: calls.map(call => ({ functionCall: call })) });
+    contents.push({
+      role: 'user',
+      parts: calls.map(call => {
+        const outcome = runDatasetTool(call.name || '', call.args || {}, context);
+        toolCalls.push({ name: call.name || '', args: call.args || {}, matched: outcome.addresses.length });
+        // An empty match is an answer too; only calls to unknown tools leave the addresses alone.
+        if (DATASET_TOOL_NAMES.has(call.name || '')) addresses = outcome.addresses;
+        return { functionResponse: { id: call.id, name: call.name, response: outcome.result } };
+      }),
+    });
   }
+  throw new Error('The model kept calling tools without answering.');
 };
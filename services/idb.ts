@@ -0,0 +1,26 @@
+/**
+ * Opens (and on version bumps upgrades) an IndexedDB database. Rejects when IndexedDB is
+ * not available, e.g. outside the browser.
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const txDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
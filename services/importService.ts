@@ -0,0 +1,160 @@
+import { ImportedFile, ImportedRow } from '../types.ts';
+import { parseCsv } from '../utils/csv.ts';
+import { parseAmount } from '../utils/amount.ts';
+import { isPayoutManifest, verifyPayoutManifest } from './exportService.ts';
+
+const isAddress = (value: string) => /^0x[0-9a-f]{40}$/.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseRaw = (value: unknown): bigint | null => {
+  const text = String(value ?? '').trim();
+  return /^\d+$/.test(text) ? BigInt(text) : null;
+};
+
+// Finance lists tend to carry thousands separators ("1,234.50").
+const parseDecimal = (value: unknown, decimals: number): bigint | null => {
+  const text = String(value ?? '').trim().replace(/[,\s_]/g, '');
+  return /^\d*\.?\d+$|^\d+\.$/.test(text) ? parseAmount(text, decimals) : null;
+};
+
+const parseLevel = (value: unknown): number | undefined => {
+  const level = Number(String(value ?? '').replace(/^L/i, ''));
+  return String(value ?? '').trim() !== '' && Number.isInteger(level) ? level : undefined;
+};
+
+/**
+ * Reads one JSON object from our own exports (`totalLgnsRaw`, `totalLgns`) or a generic
+ * payout list (`address` plus `amount_raw` or a decimal `amount`).
+ */
+const readObjectRow = (entry: unknown, decimals: number): ImportedRow | null => {
+  if (!isRecord(entry)) return null;
+  const address = String(entry.address ?? entry.wallet ?? '').trim().toLowerCase();
+  if (!isAddress(address)) return null;
+
+  const rawValue = entry.totalLgnsRaw ?? entry.amount_raw ?? entry.amountRaw;
+  const decimalValue = entry.totalLgns ?? entry.amount;
+  let amount: bigint | undefined;
+  if (rawValue !== undefined) {
+    amount = parseRaw(rawValue) ?? undefined;
+    if (amount === undefined) return null;
+  } else if (decimalValue !== undefined) {
+    amount = parseDecimal(decimalValue, decimals) ?? undefined;
+    if (amount === undefined) return null;
+  }
+  return { address, amount, level: parseLevel(entry.level) };
+};
+
+const findColumn = (columns: string[], patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    const index = columns.findIndex(column => pattern.test(column));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const parseCsvFile = (name: string, text: string, decimals: number): ImportedFile => {
+  const metadata: Record<string, string> = {};
+  const table = parseCsv(text).filter(row => {
+    // Our exports end with `# key,value` metadata rows after an empty separator row; older
+    // ones opened with them.
+    if (row[0]?.startsWith('# ')) {
+      metadata[row[0].slice(2).trim()] = row[1] || '';
+      return false;
+    }
+    return row.some(cell => cell.trim() !== '');
+  });
+  const [header, ...rows] = table;
+  const columns = (header || []).map(column => column.trim().toLowerCase());
+
+  const addressColumn = findColumn(columns, [/^(wallet )?address$/, /address|wallet/]);
+  if (addressColumn === -1) throw new Error('CSV needs an address column.');
+  const rawColumn = findColumn(columns, [/\(raw\)$/, /^amount_raw$/, /raw/]);
+  const decimalColumn = rawColumn !== -1 ? -1 : findColumn(columns, [/^total spider reward$/, /^spider reward$/, /^amount$/, /amount|total/]);
+  const levelColumn = findColumn(columns, [/^level$/, /^lvl$/]);
+
+  let skipped = 0;
+  const imported: ImportedRow[] = [];
+  rows.forEach(row => {
+    const address = (row[addressColumn] || '').trim().toLowerCase();
+    const amount = rawColumn !== -1
+      ? parseRaw(row[rawColumn])
+      : decimalColumn !== -1 ? parseDecimal(row[decimalColumn], decimals) : undefined;
+    if (!isAddress(address) || amount === null) {
+      skipped++;
+      return;
+    }
+    imported.push({ address, amount, level: levelColumn === -1 ? undefined : parseLevel(row[levelColumn]) });
+  });
+
+  // Our export columns always hold the same amount, whatever metric the view was sorted by; the
+  // recorded metric only describes generic amount columns. CSVs from before the metadata export
+  // had a "Spider Reward" column holding the latest event.
+  const amountHeader = columns[rawColumn !== -1 ? rawColumn : decimalColumn];
+  const metric = /^total spider reward( \(raw\))?$/.test(amountHeader || '')
+    ? 'totalLgns'
+    : amountHeader === 'spider reward' ? 'latestLgns' : metadata.metric;
+  return { name, format: 'csv', rows: imported, metric, blocks: metadata.blocks, skipped, hasAmounts: rawColumn !== -1 || decimalColumn !== -1 };
+};
+
+const parseObjects = (
+  name: string,
+  format: 'json' | 'ndjson',
+  entries: unknown[],
+  decimals: number,
+  metadata: Record<string, unknown> = {}
+): ImportedFile => {
+  let skipped = 0;
+  const rows: ImportedRow[] = [];
+  entries.forEach(entry => {
+    const row = readObjectRow(entry, decimals);
+    if (row) rows.push(row);
+    else skipped++;
+  });
+  const blocks = metadata.blockStart !== undefined ? `${metadata.blockStart}-${metadata.blockEnd}` : undefined;
+  // Our row exports always carry the total, whatever metric the view was sorted by.
+  const metric = entries.some(entry => isRecord(entry) && entry.totalLgnsRaw !== undefined) ? 'totalLgns' : undefined;
+  return { name, format, rows, metric, blocks, skipped, hasAmounts: rows.some(row => row.amount !== undefined) };
+};
+
+/**
+ * Reads a previous CSV/JSON/NDJSON export, a payout manifest or a finance payout list.
+ * Amounts come back in raw units; decimal columns are converted with `decimals`.
+ */
+export const parseImportFile = async (name: string, text: string, decimals: number): Promise<ImportedFile> => {
+  const source = text.replace(/^\uFEFF/, '').trim();
+
+  if (isPayoutManifest(source)) {
+    const result = await verifyPayoutManifest(text);
+    return {
+      name,
+      format: 'manifest',
+      rows: result.rows,
+      metric: result.metadata.metric,
+      blocks: result.metadata.blocks,
+      checksumValid: result.valid,
+      skipped: 0,
+      hasAmounts: true,
+    };
+  }
+
+  if (source.startsWith('{') || source.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch {
+      const lines: unknown[] = source.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+      const isMetadata = (line: unknown) => isRecord(line) && line.type === 'metadata';
+      const metadata = lines.find(isMetadata);
+      return parseObjects(name, 'ndjson', lines.filter(line => !isMetadata(line)), decimals, isRecord(metadata) ? metadata : undefined);
+    }
+    if (Array.isArray(parsed)) return parseObjects(name, 'json', parsed, decimals);
+    if (isRecord(parsed) && Array.isArray(parsed.rows)) {
+      return parseObjects(name, 'json', parsed.rows, decimals, isRecord(parsed.metadata) ? parsed.metadata : undefined);
+    }
+    throw new Error('JSON file has no rows to import.');
+  }
+
+  return parseCsvFile(name, source, decimals);
+};
@@ -0,0 +1,98 @@
+export interface JsonRpcRequest {
+  method: string;
+  params: unknown[];
+}
+
+export interface JsonRpcOutcome<T = any> {
+  ok: boolean;
+  result?: T;
+  error?: Error;
+}
+
+const BATCH_REJECTED = 'Batch rejected:';
+
+/**
+ * True for the error `sendJsonRpcBatch` throws when the endpoint refuses batches altogether.
+ */
+export const isBatchRejectedError = (message: string) => message.startsWith(BATCH_REJECTED);
+
+// Ids are unique per page load so responses can always be matched back to their request.
+let nextRequestId = 1;
+
+/**
+ * Sends several JSON-RPC requests in one HTTP body and returns their outcomes in request
+ * order, matched by id. Transport failures throw; per-request errors are returned.
+ */
+export const sendJsonRpcBatch = async (
+  url: string,
+  requests: JsonRpcRequest[],
+  signal?: AbortSignal
+): Promise<JsonRpcOutcome[]> => {
+  const payload = requests.map(({ method, params }) => ({
+    jsonrpc: '2.0',
+    id: nextRequestId++,
+    method,
+    params,
+  }));
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload.length === 1 ? payload[0] : payload),
+    signal,
+  });
+  if (!res.ok) throw new Error(`HTTP Error! Status: ${res.status}`);
+
+  const json = await res.json();
+  // Providers without batch support answer a batch with one top-level error object.
+  if (!Array.isArray(json) && payload.length > 1) {
+    throw new Error(`${BATCH_REJECTED} ${json?.error?.message || 'Batch requests are not supported.'}`);
+  }
+
+  const responses: any[] = Array.isArray(json) ? json : [json];
+  const byId = new Map(responses.map(response => [response.id, response]));
+  return payload.map(({ id }): JsonRpcOutcome => {
+    const response = byId.get(id) ?? (payload.length === 1 ? responses[0] : undefined);
+    if (!response) return { ok: false, error: new Error(`RPC Error: no response for request ${id}`) };
+    if (response.error) return { ok: false, error: new Error(`RPC Error: ${response.error.message}`) };
+    return { ok: true, result: response.result };
+  });
+};
+
+/**
+ * Sends a single JSON-RPC request and returns its result, throwing on any error.
+ */
+export const sendJsonRpc = async <T = any>(
+  url: string,
+  method: string,
+  params: unknown[],
+  signal?: AbortSignal
+): Promise<T> => {
+  const [outcome] = await sendJsonRpcBatch(url, [{ method, params }], signal);
+  if (!outcome.ok) throw outcome.error;
+  return outcome.result;
+};
+
+/**
+ * Returns a runner that lets at most `maxInFlight` tasks execute at the same time.
+ */
+export const createLimiter = (maxInFlight: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxInFlight) {
+      // The finishing task hands its slot over directly, so `active` is not bumped here.
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
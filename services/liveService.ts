@@ -0,0 +1,207 @@
+import {
+  LIVE_POLL_INTERVAL_MS,
+  LIVE_RECHECK_INTERVAL_MS,
+  LIVE_REORG_DEPTH,
+  LIVE_WS_RECONNECT_MS
+} from '../constants.ts';
+import { LGNSEvent, LiveStatus } from '../types.ts';
+import { RpcPool } from './rpcPool.ts';
+import { EventSource } from './eventRegistry.ts';
+import { fetchLatestBlock, fetchLogsInRange } from './blockchainService.ts';
+import { removeCachedEvents, replaceCachedRange } from './logCacheService.ts';
+import { sleep } from '../utils/sleep.ts';
+import { eventKey } from '../utils/aggregation.ts';
+
+export interface LiveUpdate {
+  added: LGNSEvent[];
+  /** Events that were reported before but are gone after a reorg. */
+  removed: LGNSEvent[];
+  head: number;
+}
+
+export interface LiveFollowerOptions {
+  rpc: RpcPool;
+  source: EventSource;
+  /** First block of the scan window; nothing below it is ever fetched. */
+  windowStart: number;
+  /** Last block the initial scan covered. */
+  coveredTo: number;
+  /** Events of the initial scan; those near the head are re-checked for reorgs. */
+  knownEvents: LGNSEvent[];
+  wsUrl?: string;
+  onUpdate: (update: LiveUpdate) => void;
+  onStatus: (status: LiveStatus) => void;
+}
+
+export interface LiveFollower {
+  stop: () => void;
+}
+
+const SUBSCRIBE_REQUEST_ID = 1;
+
+/**
+ * Follows the chain head for new events of `source`. Every sweep re-reads the last
+ * LIVE_REORG_DEPTH blocks with eth_getLogs and reports what appeared or vanished since the
+ * previous read. With `wsUrl`, an `eth_subscribe('logs')` subscription delivers events as they
+ * are mined (including `removed: true` notices) and sweeps drop to LIVE_RECHECK_INTERVAL_MS;
+ * otherwise sweeps run every LIVE_POLL_INTERVAL_MS.
+ */
+export const startLiveFollower = ({
+  rpc,
+  source,
+  windowStart,
+  coveredTo,
+  knownEvents,
+  wsUrl,
+  onUpdate,
+  onStatus
+}: LiveFollowerOptions): LiveFollower => {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const recent = new Map<string, LGNSEvent>();
+  let head = coveredTo;
+  let scannedTo = coveredTo;
+  let socket: WebSocket | null = null;
+  let subscribed = false;
+  let status: LiveStatus = { transport: 'polling', head: null, lastSweepAt: null, reorgedEvents: 0 };
+
+  const setStatus = (patch: Partial<LiveStatus>) => {
+    status = { ...status, ...patch };
+    onStatus(status);
+  };
+
+  knownEvents.forEach(event => {
+    if (event.blockNumber > coveredTo - LIVE_REORG_DEPTH) recent.set(eventKey(event), event);
+  });
+
+  const emit = (added: LGNSEvent[], removed: LGNSEvent[]) => {
+    if (added.length === 0 && removed.length === 0) return;
+    if (removed.length > 0) setStatus({ reorgedEvents: status.reorgedEvents + removed.length });
+    onUpdate({ added, removed, head });
+  };
+
+  const sweep = async () => {
+    const latest = await fetchLatestBlock(rpc);
+    signal.throwIfAborted();
+    const from = Math.max(windowStart, Math.min(scannedTo + 1, latest - LIVE_REORG_DEPTH + 1));
+    if (latest < from) return;
+
+    const { events, failedRanges } = await fetchLogsInRange(rpc, source, from, latest, latest - from + 1, { signal });
+    if (failedRanges.length > 0) {
+      throw new Error(`Live sweep could not read blocks ${failedRanges.map(([a, b]) => `${a}-${b}`).join(', ')}.`);
+    }
+
+    const fresh = new Set(events.map(eventKey));
+    const removed: LGNSEvent[] = [];
+    recent.forEach((event, key) => {
+      if (event.blockNumber >= from && event.blockNumber <= latest && !fresh.has(key)) {
+        removed.push(event);
+        recent.delete(key);
+      }
+    });
+    const added = events.filter(event => !recent.has(eventKey(event)));
+    added.forEach(event => recent.set(eventKey(event), event));
+
+    head = Math.max(head, latest);
+    scannedTo = Math.max(scannedTo, latest);
+    replaceCachedRange(source, from, latest, events, head).catch(error => console.warn('Failed to update the log cache:', error));
+    recent.forEach((event, key) => {
+      if (event.blockNumber <= head - LIVE_REORG_DEPTH) recent.delete(key);
+    });
+    setStatus({ head, lastSweepAt: Date.now(), error: undefined });
+    emit(added, removed);
+  };
+
+  const handleLog = (log: any) => {
+    let event: LGNSEvent;
+    try {
+      event = source.decode(log);
+    } catch (error) {
+      console.warn('Skipping undecodable live log:', error);
+      return;
+    }
+    const key = eventKey(event);
+    if (log.removed) {
+      removeCachedEvents(source, [event]).catch(error => console.warn('Failed to update the log cache:', error));
+      if (recent.delete(key)) emit([], [event]);
+      return;
+    }
+    if (recent.has(key) || event.blockNumber < windowStart) return;
+    recent.set(key, event);
+    head = Math.max(head, event.blockNumber);
+    setStatus({ head });
+    emit([event], []);
+  };
+
+  const connect = () => {
+    if (!wsUrl || signal.aborted) return;
+    const ws = new WebSocket(wsUrl);
+    let unsupported = false;
+    socket = ws;
+
+    ws.onopen = () => ws.send(JSON.stringify({
+      jsonrpc: '2.0',
+      id: SUBSCRIBE_REQUEST_ID,
+      method: 'eth_subscribe',
+      params: ['logs', { address: source.address, topics: [source.topic] }],
+    }));
+
+    ws.onmessage = message => {
+      let payload: any;
+      try {
+        payload = JSON.parse(String(message.data));
+      } catch {
+        return;
+      }
+      if (payload.id === SUBSCRIBE_REQUEST_ID) {
+        if (payload.error) {
+          // Endpoints without subscription support answer the same way every time.
+          unsupported = true;
+          setStatus({ error: `eth_subscribe rejected: ${payload.error.message}. Falling back to polling.` });
+          ws.close();
+          return;
+        }
+        subscribed = true;
+        setStatus({ transport: 'websocket', error: undefined });
+        return;
+      }
+      if (payload.method === 'eth_subscription' && payload.params?.result) handleLog(payload.params.result);
+    };
+
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      subscribed = false;
+      if (signal.aborted) return;
+      setStatus({ transport: 'polling' });
+      if (!unsupported) sleep(LIVE_WS_RECONNECT_MS, signal).then(connect, () => {});
+    };
+  };
+
+  const run = async () => {
+    while (!signal.aborted) {
+      try {
+        await sweep();
+      } catch (error: any) {
+        if (signal.aborted) return;
+        console.warn('Live sweep failed:', error);
+        setStatus({ error: error.message || 'Live sweep failed' });
+      }
+      try {
+        await sleep(subscribed ? LIVE_RECHECK_INTERVAL_MS : LIVE_POLL_INTERVAL_MS, signal);
+      } catch {
+        return;
+      }
+    }
+  };
+
+  setStatus({});
+  connect();
+  run();
+
+  return {
+    stop: () => {
+      controller.abort();
+      socket?.close();
+    },
+  };
+};
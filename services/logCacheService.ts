@@ -0,0 +1,226 @@
+import { LOG_CACHE_CONFIRMATIONS, LOG_CACHE_DB_NAME } from '../constants.ts';
+import { LGNSEvent, SyncResult, BlockRange } from '../types.ts';
+import { fetchLogsInRange, ScanOptions } from './blockchainService.ts';
+import { RpcPool } from './rpcPool.ts';
+import { openDatabase, txDone } from './idb.ts';
+import { EventSource } from './eventRegistry.ts';
+
+interface CachedEvent extends LGNSEvent {
+  scope: string;
+}
+
+const EVENTS_STORE = 'events';
+const COVERAGE_STORE = 'coverage';
+
+// Cached logs are partitioned by chain + contract + topic so different sources never mix.
+const cacheScope = (source: EventSource) => `${source.chainId}:${source.address}:${source.topic}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(LOG_CACHE_DB_NAME, 2, (db) => {
+      // v2 stores raw bigint amounts; float amounts from v1 cannot be restored exactly.
+      Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+      const events = db.createObjectStore(EVENTS_STORE, {
+        keyPath: ['scope', 'blockNumber', 'transactionHash', 'logIndex'],
+      });
+      events.createIndex('byBlock', ['scope', 'blockNumber']);
+      db.createObjectStore(COVERAGE_STORE, { keyPath: 'scope' });
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Collapses overlapping or adjacent inclusive ranges into a sorted minimal set.
+ */
+export const mergeRanges = (ranges: BlockRange[]): BlockRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: BlockRange[] = [];
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Returns the parts of [from, to] that are not covered by `covered`.
+ */
+export const missingRanges = (from: number, to: number, covered: BlockRange[]): BlockRange[] => {
+  const gaps: BlockRange[] = [];
+  let cursor = from;
+  for (const [cFrom, cTo] of mergeRanges(covered)) {
+    if (cTo < cursor) continue;
+    if (cFrom > to) break;
+    if (cFrom > cursor) gaps.push([cursor, cFrom - 1]);
+    cursor = Math.max(cursor, cTo + 1);
+  }
+  if (cursor <= to) gaps.push([cursor, to]);
+  return gaps;
+};
+
+/**
+ * Removes [from, to] from a set of covered ranges.
+ */
+export const subtractRange = (ranges: BlockRange[], from: number, to: number): BlockRange[] =>
+  ranges.flatMap(([cFrom, cTo]): BlockRange[] => {
+    if (cTo < from || cFrom > to) return [[cFrom, cTo]];
+    const pieces: BlockRange[] = [];
+    if (cFrom < from) pieces.push([cFrom, from - 1]);
+    if (cTo > to) pieces.push([to + 1, cTo]);
+    return pieces;
+  });
+
+// Every cached log of `scope` in blocks [from, to]; primary keys start with [scope, blockNumber].
+const blockKeyRange = (scope: string, from: number, to: number) =>
+  IDBKeyRange.bound([scope, from], [scope, to + 1], false, true);
+
+const readCoverage = async (db: IDBDatabase, scope: string): Promise<BlockRange[]> => {
+  const tx = db.transaction(COVERAGE_STORE, 'readonly');
+  const request = tx.objectStore(COVERAGE_STORE).get(scope);
+  await txDone(tx);
+  return request.result?.ranges || [];
+};
+
+/**
+ * Replaces the cached logs of [from, to] with `events`, so logs orphaned by a reorg do not
+ * linger. Only blocks up to `confirmedTo` are marked covered; newer ones are refetched next time.
+ */
+const storeChunk = async (db: IDBDatabase, scope: string, from: number, to: number, events: LGNSEvent[], confirmedTo: number) => {
+  const tx = db.transaction([EVENTS_STORE, COVERAGE_STORE], 'readwrite');
+  const eventStore = tx.objectStore(EVENTS_STORE);
+  eventStore.delete(blockKeyRange(scope, from, to));
+  events.forEach(event => eventStore.put({ ...event, scope } as CachedEvent));
+
+  if (from <= confirmedTo) {
+    const coverageStore = tx.objectStore(COVERAGE_STORE);
+    const request = coverageStore.get(scope);
+    request.onsuccess = () => {
+      const ranges: BlockRange[] = request.result?.ranges || [];
+      coverageStore.put({ scope, ranges: mergeRanges([...ranges, [from, Math.min(to, confirmedTo)]]) });
+    };
+  }
+  await txDone(tx);
+};
+
+/**
+ * Live mode: replaces the cached logs of a freshly re-read block range.
+ */
+export const replaceCachedRange = async (source: EventSource, from: number, to: number, events: LGNSEvent[], head: number) => {
+  const db = await openDb();
+  await storeChunk(db, cacheScope(source), from, to, events, head - LOG_CACHE_CONFIRMATIONS);
+};
+
+/**
+ * Live mode: drops logs reported as `removed` and un-covers their blocks so the next sync
+ * re-reads them.
+ */
+export const removeCachedEvents = async (source: EventSource, events: LGNSEvent[]) => {
+  if (events.length === 0) return;
+  const db = await openDb();
+  const scope = cacheScope(source);
+  const tx = db.transaction([EVENTS_STORE, COVERAGE_STORE], 'readwrite');
+  const eventStore = tx.objectStore(EVENTS_STORE);
+  events.forEach(event => eventStore.delete([scope, event.blockNumber, event.transactionHash, event.logIndex]));
+  const coverageStore = tx.objectStore(COVERAGE_STORE);
+  const request = coverageStore.get(scope);
+  request.onsuccess = () => {
+    if (!request.result) return;
+    const ranges = events.reduce<BlockRange[]>(
+      (acc, event) => subtractRange(acc, event.blockNumber, event.blockNumber),
+      request.result.ranges
+    );
+    coverageStore.put({ scope, ranges });
+  };
+  await txDone(tx);
+};
+
+const readEvents = async (db: IDBDatabase, scope: string, from: number, to: number): Promise<LGNSEvent[]> => {
+  const tx = db.transaction(EVENTS_STORE, 'readonly');
+  const request = tx.objectStore(EVENTS_STORE)
+    .index('byBlock')
+    .getAll(IDBKeyRange.bound([scope, from], [scope, to]));
+  await txDone(tx);
+  return (request.result as CachedEvent[]).map(({ scope, ...event }) => event);
+};
+
+/**
+ * Drops every cached log and coverage record.
+ */
+export const clearLogCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([EVENTS_STORE, COVERAGE_STORE], 'readwrite');
+  tx.objectStore(EVENTS_STORE).clear();
+  tx.objectStore(COVERAGE_STORE).clear();
+  await txDone(tx);
+};
+
+/**
+ * Returns every log in the inclusive block range, only requesting blocks that are not
+ * already in the local cache. Falls back to a plain scan when IndexedDB is unavailable.
+ * Every completed chunk is persisted immediately, so an aborted sync resumes where it stopped;
+ * chunks within LOG_CACHE_CONFIRMATIONS of `head` are stored but refetched on the next sync.
+ */
+export const syncLogs = async (
+  rpc: RpcPool,
+  source: EventSource,
+  { start, end, head = end }: { start: number; end: number; head?: number },
+  chunkSize: number,
+  { onProgress, signal, batchSize }: Omit<ScanOptions, 'onChunk'> = {}
+): Promise<SyncResult> => {
+  const windowSize = end - start + 1;
+
+  let db: IDBDatabase;
+  try {
+    db = await openDb();
+  } catch (error) {
+    console.warn('Log cache unavailable, scanning without it:', error);
+    const scan = await fetchLogsInRange(rpc, source, start, end, chunkSize, { onProgress, signal, batchSize });
+    return {
+      events: scan.events,
+      range: { start, end },
+      fetchedBlocks: windowSize,
+      cachedBlocks: 0,
+      gaps: scan.failedRanges,
+      chunkSize: scan.chunkSize,
+    };
+  }
+
+  const scope = cacheScope(source);
+  const confirmedTo = head - LOG_CACHE_CONFIRMATIONS;
+  const gaps = missingRanges(start, end, await readCoverage(db, scope));
+  const fetchedBlocks = gaps.reduce((acc, [from, to]) => acc + (to - from + 1), 0);
+
+  const failed: BlockRange[] = [];
+  let scannedBefore = 0;
+  let settledChunk = chunkSize;
+  for (const [from, to] of gaps) {
+    const scan = await fetchLogsInRange(rpc, source, from, to, settledChunk, {
+      onProgress: onProgress && ((scanned) => onProgress(scannedBefore + scanned, fetchedBlocks)),
+      onChunk: (chunkFrom, chunkTo, events) => storeChunk(db, scope, chunkFrom, chunkTo, events, confirmedTo),
+      signal,
+      batchSize,
+    });
+    failed.push(...scan.failedRanges);
+    settledChunk = scan.chunkSize;
+    scannedBefore += to - from + 1;
+  }
+  if (onProgress) onProgress(fetchedBlocks, fetchedBlocks);
+
+  const events = await readEvents(db, scope, start, end);
+  return {
+    events,
+    range: { start, end },
+    fetchedBlocks,
+    cachedBlocks: windowSize - fetchedBlocks,
+    gaps: mergeRanges(failed),
+    chunkSize: settledChunk,
+  };
+};
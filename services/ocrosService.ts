@@ -1,38 +1,212 @@
-import { OCROS_API_BASE_URL } from '../constants.ts';
-import { UserRewardData } from '../types.ts';
+import {
+  OCROS_API_BASE_URL,
+  OCROS_CACHE_TTL_MS,
+  OCROS_RATE_PER_SECOND,
+  OCROS_BURST,
+  OCROS_CONCURRENCY,
+  OCROS_MAX_RETRIES,
+  OCROS_RETRY_BASE_DELAY_MS
+} from '../constants.ts';
+import { UserRewardData, OcrosRewardRecord } from '../types.ts';
+import { createLimiter } from './jsonRpcClient.ts';
+import { sleep } from '../utils/sleep.ts';
+
+export interface RewardOutcome {
+  rewards?: UserRewardData;
+  error?: string;
+}
+
+interface HttpError extends Error {
+  status: number;
+  retryAfterMs: number | null;
+}
+
+const httpError = (status: number, retryAfterMs: number | null): HttpError =>
+  Object.assign(new Error(`HTTP Error! Status: ${status}`), { status, retryAfterMs });
 
 /**
- * Fetches reward data for a specific address from Ocros API
+ * Token bucket: `take` resolves once a token is available, refilling at `ratePerSecond`.
  */
-export const fetchRewards = async (address: string): Promise<UserRewardData> => {
-  try {
-    const url = `${OCROS_API_BASE_URL}/community/${address}/rewards`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+const createTokenBucket = (ratePerSecond: number, capacity: number) => {
+  let tokens = capacity;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - updatedAt) / 1000) * ratePerSecond);
+    updatedAt = now;
+  };
 
-    if (!response.ok) {
-      if (response.status === 404) return { level: 0, reward: 0 };
-      throw new Error(`HTTP Error! Status: ${response.status}`);
+  const take = async (signal?: AbortSignal) => {
+    refill();
+    while (tokens < 1) {
+      await sleep(((1 - tokens) / ratePerSecond) * 1000, signal);
+      refill();
     }
+    tokens -= 1;
+  };
+
+  // A 429 means the server's budget is spent regardless of ours.
+  const drain = () => {
+    refill();
+    tokens = Math.min(tokens, 0);
+  };
+
+  return { take, drain };
+};
+
+const bucket = createTokenBucket(OCROS_RATE_PER_SECOND, OCROS_BURST);
+const cache = new Map<string, { rewards: UserRewardData; expiresAt: number }>();
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date.
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const NO_REWARDS: UserRewardData = { level: 0, reward: 0, records: [], schemaIssues: [] };
+const KNOWN_FIELDS = new Set(['level', 'reward']);
+const reportedIssues = new Set<string>();
+
+const readNumber = (record: Record<string, unknown>, field: string, index: number, issues: string[]) => {
+  const value = record[field];
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  // Numeric strings are accepted as-is; anything else means the schema moved.
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  issues.push(value === undefined || value === null
+    ? `Record ${index}: missing "${field}"`
+    : `Record ${index}: "${field}" is ${typeof value}, expected number`);
+  return 0;
+};
+
+/**
+ * Parses the rewards payload into typed records. Nothing is thrown for unexpected shapes;
+ * every deviation, including fields the model does not know yet, is collected in
+ * `schemaIssues` and logged once per session. Unknown fields are still kept in `extra`.
+ */
+export const parseRewardsPayload = (payload: unknown): UserRewardData => {
+  const issues: string[] = [];
+  const records: OcrosRewardRecord[] = [];
+  const unexpected = new Set<string>();
+
+  if (!Array.isArray(payload)) {
+    issues.push(`Expected an array of reward records, got ${payload === null ? 'null' : typeof payload}`);
+  } else {
+    payload.forEach((entry, index) => {
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        issues.push(`Record ${index}: expected an object`);
+        return;
+      }
+      const record = entry as Record<string, unknown>;
+      const extra: Record<string, unknown> = {};
+      Object.keys(record).forEach(key => {
+        if (KNOWN_FIELDS.has(key)) return;
+        extra[key] = record[key];
+        unexpected.add(key);
+      });
+      records.push({
+        level: readNumber(record, 'level', index, issues),
+        reward: readNumber(record, 'reward', index, issues),
+        extra,
+      });
+    });
+  }
+  unexpected.forEach(key => issues.push(`Unexpected field "${key}"`));
+
+  issues.forEach(issue => {
+    if (reportedIssues.has(issue)) return;
+    reportedIssues.add(issue);
+    console.warn('Ocros rewards schema drift:', issue);
+  });
+
+  return {
+    level: records[0]?.level ?? 0,
+    reward: records[0]?.reward ?? 0,
+    records,
+    schemaIssues: issues,
+  };
+};
+
+// fetch rejects with a TypeError on network failures.
+const isRetryable = (error: any) =>
+  typeof error.status === 'number' ? error.status === 429 || error.status >= 500 : error instanceof TypeError;
+
+const requestRewards = async (address: string, signal?: AbortSignal): Promise<UserRewardData> => {
+  await bucket.take(signal);
+  const url = `${OCROS_API_BASE_URL}/community/${address}/rewards`;
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    // 404 is how the API reports an address without a community record.
+    if (response.status === 404) return NO_REWARDS;
+    if (response.status === 429) bucket.drain();
+    throw httpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+
+  return parseRewardsPayload(await response.json());
+};
 
-    const data = await response.json();
-    
-    if (Array.isArray(data) && data.length > 0) {
-      return {
-        level: data[0].level || 0,
-        reward: data[0].reward || 0
-      };
+/**
+ * Fetches reward data for a specific address from Ocros API. Results are cached for
+ * OCROS_CACHE_TTL_MS; 429, 5xx and network errors are retried with backoff, honouring
+ * Retry-After. Throws once retries are exhausted so callers can tell failures from level 0.
+ */
+export const fetchRewards = async (address: string, signal?: AbortSignal): Promise<UserRewardData> => {
+  const key = address.toLowerCase();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.rewards;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const rewards = await requestRewards(key, signal);
+      cache.set(key, { rewards, expiresAt: Date.now() + OCROS_CACHE_TTL_MS });
+      return rewards;
+    } catch (error: any) {
+      if (signal?.aborted) throw signal.reason;
+      if (attempt >= OCROS_MAX_RETRIES || !isRetryable(error)) throw error;
+      const delay = error.retryAfterMs ?? OCROS_RETRY_BASE_DELAY_MS * 2 ** attempt;
+      await sleep(delay, signal);
     }
-    
-    return { level: 0, reward: 0 };
-  } catch (error: any) {
-    console.warn(`Failed to fetch rewards for ${address}:`, error.message);
-    return { level: 0, reward: 0 };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Fetches rewards for many addresses, OCROS_CONCURRENCY at a time. Never rejects for a
+ * single address; its failure is reported in the outcome instead.
+ */
+export const fetchRewardsForAddresses = async (
+  addresses: string[],
+  { signal, onResult }: { signal?: AbortSignal; onResult?: (address: string, outcome: RewardOutcome) => void } = {}
+): Promise<Map<string, RewardOutcome>> => {
+  const limit = createLimiter(OCROS_CONCURRENCY);
+  const outcomes = new Map<string, RewardOutcome>();
+
+  await Promise.all(addresses.map(address => limit(async () => {
+    signal?.throwIfAborted();
+    let outcome: RewardOutcome;
+    try {
+      outcome = { rewards: await fetchRewards(address, signal) };
+    } catch (error: any) {
+      if (signal?.aborted) throw signal.reason;
+      console.warn(`Failed to fetch rewards for ${address}:`, error.message);
+      outcome = { error: error.message || 'Reward lookup failed' };
+    }
+    outcomes.set(address, outcome);
+    onResult?.(address, outcome);
+  })));
+
+  return outcomes;
+};
@@ -0,0 +1,42 @@
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '../constants.ts';
+import { AnalysisProvider } from './analysisService.ts';
+
+export interface OpenAiCompatibleOptions {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * Analysis provider for any server implementing OpenAI's chat completions API (Ollama,
+ * LM Studio, vLLM, OpenAI itself). Browsers need the server to allow this origin via CORS.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, model, apiKey }: OpenAiCompatibleOptions = {}): AnalysisProvider => {
+  const resolvedModel = model || DEFAULT_OPENAI_MODEL;
+  const endpoint = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+  return {
+    kind: 'openai',
+    model: resolvedModel,
+    complete: async (prompt, signal) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: resolvedModel,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: { type: 'json_object' },
+          temperature: 0.2,
+        }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`${endpoint} answered HTTP ${response.status}`);
+      const body = await response.json();
+      const content = body?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('The endpoint returned no completion.');
+      return content;
+    },
+  };
+};
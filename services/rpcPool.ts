@@ -0,0 +1,194 @@
+import {
+  RPC_PROBE_TIMEOUT_MS,
+  RPC_MAX_HEAD_LAG,
+  RPC_MAX_CONSECUTIVE_FAILURES,
+  DEFAULT_RPC_MAX_IN_FLIGHT
+} from '../constants.ts';
+import { RpcEndpointStatus } from '../types.ts';
+import { JsonRpcRequest, JsonRpcOutcome, sendJsonRpc, sendJsonRpcBatch, createLimiter, isBatchRejectedError } from './jsonRpcClient.ts';
+
+// Messages providers use when a range or its result set is too large for one eth_getLogs call.
+const RANGE_LIMIT_PATTERN = /more than \d+ results|block range|range (is )?too (large|wide)|limit exceeded|response size|query timeout|too many (logs|results)/i;
+
+export const isRangeLimitError = (message: string) => RANGE_LIMIT_PATTERN.test(message);
+
+// The subset of range-limit messages about the size of the result set, which depends on how
+// dense the logs are rather than on the width of the range.
+const RESULT_LIMIT_PATTERN = /more than \d+ results|too many (logs|results)|response size|query timeout/i;
+
+export const isResultLimitError = (message: string) => RESULT_LIMIT_PATTERN.test(message);
+
+export interface RpcPool {
+  /** Current status of every endpoint, healthiest and fastest first. */
+  endpoints: () => RpcEndpointStatus[];
+  /**
+   * Measures latency and head freshness of every endpoint with `eth_blockNumber`, and
+   * checks `eth_chainId` when the pool was created for a specific chain.
+   */
+  probe: () => Promise<RpcEndpointStatus[]>;
+  /** Sends one request, spreading load over healthy endpoints and failing over on errors. */
+  call: <T = any>(method: string, params: unknown[], signal?: AbortSignal) => Promise<T>;
+  /** Sends requests as one JSON-RPC batch; failed entries are retried on the next endpoint. */
+  callBatch: (requests: JsonRpcRequest[], signal?: AbortSignal) => Promise<JsonRpcOutcome[]>;
+  /** Maximum number of HTTP requests the pool keeps in flight at once. */
+  maxInFlight: number;
+}
+
+export interface RpcPoolOptions {
+  maxInFlight?: number;
+  /** Endpoints reporting any other chain id are taken out of rotation by `probe`. */
+  expectedChainId?: number;
+}
+
+const rank = (a: RpcEndpointStatus, b: RpcEndpointStatus) => {
+  if (a.healthy !== b.healthy) return a.healthy ? -1 : 1;
+  return (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity);
+};
+
+export const createRpcPool = (
+  urls: string[],
+  { maxInFlight = DEFAULT_RPC_MAX_IN_FLIGHT, expectedChainId }: RpcPoolOptions = {}
+): RpcPool => {
+  const unique = Array.from(new Set(urls.map(u => u.trim()).filter(Boolean)));
+  if (unique.length === 0) throw new Error('No RPC endpoints configured.');
+
+  const statuses: RpcEndpointStatus[] = unique.map(url => ({
+    url,
+    healthy: true,
+    latencyMs: null,
+    headBlock: null,
+    consecutiveFailures: 0,
+  }));
+  let roundRobin = 0;
+  const onWrongChain = (status: RpcEndpointStatus) =>
+    expectedChainId !== undefined && status.chainId != null && status.chainId !== expectedChainId;
+  const limit = createLimiter(Math.max(1, maxInFlight));
+
+  const probe = async () => {
+    await Promise.all(statuses.map(async (status) => {
+      const startedAt = performance.now();
+      const timeout = AbortSignal.timeout(RPC_PROBE_TIMEOUT_MS);
+      try {
+        const [head, chainId] = await Promise.all([
+          sendJsonRpc<string>(status.url, 'eth_blockNumber', [], timeout).then(result => {
+            status.latencyMs = Math.round(performance.now() - startedAt);
+            return result;
+          }),
+          expectedChainId === undefined ? null : sendJsonRpc<string>(status.url, 'eth_chainId', [], timeout),
+        ]);
+        status.headBlock = parseInt(head, 16);
+        status.chainId = chainId === null ? null : parseInt(chainId, 16);
+        status.lastError = undefined;
+      } catch (error: any) {
+        status.latencyMs = null;
+        status.headBlock = null;
+        status.chainId = null;
+        status.lastError = error.message;
+      }
+      status.lastChecked = Date.now();
+    }));
+
+    // An endpoint on another network would return someone else's logs; drop it before it skews the head.
+    statuses.forEach(status => {
+      if (onWrongChain(status)) {
+        status.headBlock = null;
+        status.lastError = `Wrong network: chain id ${status.chainId}, expected ${expectedChainId}`;
+      }
+    });
+
+    // An endpoint that answers but lags far behind the best head would silently truncate scans.
+    const bestHead = Math.max(0, ...statuses.map(s => s.headBlock ?? 0));
+    statuses.forEach(status => {
+      status.healthy = status.headBlock !== null && bestHead - status.headBlock <= RPC_MAX_HEAD_LAG;
+      status.consecutiveFailures = 0;
+      if (status.headBlock !== null && !status.healthy) {
+        status.lastError = `Head ${bestHead - status.headBlock} blocks behind`;
+      }
+    });
+    statuses.sort(rank);
+    return endpoints();
+  };
+
+  const endpoints = () => statuses.map(s => ({ ...s }));
+
+  const candidates = () => {
+    const healthy = statuses.filter(s => s.healthy);
+    const offset = healthy.length > 0 ? roundRobin++ % healthy.length : 0;
+    return [
+      ...healthy.slice(offset),
+      ...healthy.slice(0, offset),
+      // Unhealthy endpoints remain a last resort, except ones serving a different chain.
+      ...statuses.filter(s => !s.healthy && !onWrongChain(s)),
+    ];
+  };
+
+  const recordFailure = (status: RpcEndpointStatus, message: string) => {
+    status.consecutiveFailures += 1;
+    status.lastError = message;
+    if (status.consecutiveFailures >= RPC_MAX_CONSECUTIVE_FAILURES) status.healthy = false;
+  };
+
+  // One request per HTTP call; transport errors become per-request outcomes so they fail over individually.
+  const sendSingly = (status: RpcEndpointStatus, requests: JsonRpcRequest[], signal?: AbortSignal) =>
+    Promise.all(requests.map(request =>
+      limit(() => sendJsonRpcBatch(status.url, [request], signal)).then(
+        ([outcome]) => outcome,
+        (error): JsonRpcOutcome => {
+          if (signal?.aborted) throw signal.reason;
+          return { ok: false, error };
+        }
+      )
+    ));
+
+  // Endpoints that refuse batches are remembered and served one request at a time from then on.
+  const send = async (status: RpcEndpointStatus, requests: JsonRpcRequest[], signal?: AbortSignal): Promise<JsonRpcOutcome[]> => {
+    if (requests.length > 1 && status.batchUnsupported) return sendSingly(status, requests, signal);
+    try {
+      return await limit(() => sendJsonRpcBatch(status.url, requests, signal));
+    } catch (error: any) {
+      if (requests.length <= 1 || !isBatchRejectedError(error.message)) throw error;
+      status.batchUnsupported = true;
+      return sendSingly(status, requests, signal);
+    }
+  };
+
+  const callBatch = async (requests: JsonRpcRequest[], signal?: AbortSignal): Promise<JsonRpcOutcome[]> => {
+    const outcomes: JsonRpcOutcome[] = requests.map(() => ({
+      ok: false,
+      error: new Error('All RPC endpoints failed.'),
+    }));
+    let pending = requests.map((_, index) => index);
+
+    for (const status of candidates()) {
+      if (pending.length === 0) break;
+      try {
+        const results = await send(status, pending.map(i => requests[i]), signal);
+        const retry: number[] = [];
+        results.forEach((outcome, j) => {
+          outcomes[pending[j]] = outcome;
+          // Range-limit errors are the caller's cue to shrink the request, not an endpoint fault.
+          if (!outcome.ok && !isRangeLimitError(outcome.error.message)) retry.push(pending[j]);
+        });
+        if (retry.length > 0) {
+          recordFailure(status, outcomes[retry[0]].error.message);
+        } else {
+          status.consecutiveFailures = 0;
+        }
+        pending = retry;
+      } catch (error: any) {
+        if (signal?.aborted) throw signal.reason;
+        recordFailure(status, error.message);
+        pending.forEach(i => { outcomes[i] = { ok: false, error }; });
+      }
+    }
+    return outcomes;
+  };
+
+  const call = async <T = any>(method: string, params: unknown[], signal?: AbortSignal): Promise<T> => {
+    const [outcome] = await callBatch([{ method, params }], signal);
+    if (!outcome.ok) throw outcome.error;
+    return outcome.result;
+  };
+
+  return { endpoints, probe, call, callBatch, maxInFlight: Math.max(1, maxInFlight) };
+};
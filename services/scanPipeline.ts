@@ -0,0 +1,168 @@
+import {
+  ChainProfile,
+  LGNSEvent,
+  MergedData,
+  BlockRange,
+  ResolvedWindow,
+  RpcEndpointStatus,
+  ScanWindow,
+  TrackedEvent
+} from '../types.ts';
+import { createRpcPool, RpcPool } from './rpcPool.ts';
+import { resolveScanWindow } from './blockchainService.ts';
+import { syncLogs } from './logCacheService.ts';
+import { sampleBlockTimes } from './blockTimeService.ts';
+import { fetchRewardsForAddresses, RewardOutcome } from './ocrosService.ts';
+import { EventSource, resolveEventSource } from './eventRegistry.ts';
+import { AddressAggregate, AmountMetric, aggregateEvents, metricThreshold, metricValue } from '../utils/aggregation.ts';
+
+export interface ScanPipelineOptions {
+  tracked: TrackedEvent;
+  profile: ChainProfile;
+  rpcs: string[];
+  window: ScanWindow;
+  /** Window length for block-count windows. */
+  blockCount: number;
+  chunkSize: number;
+  batchSize?: number;
+  maxInFlight?: number;
+  threshold: number;
+  metric: AmountMetric;
+  /** Samples block timestamps for the time series; headless runs can skip it. */
+  sampleTimes?: boolean;
+  signal?: AbortSignal;
+  onEndpoints?: (endpoints: RpcEndpointStatus[]) => void;
+  onRange?: (range: ResolvedWindow) => void;
+  onStage?: (stage: 'logs' | 'rewards') => void;
+  onScanProgress?: (scanned: number, total: number) => void;
+  onRewardProgress?: (settled: number, total: number) => void;
+}
+
+export interface ScanPipelineResult {
+  source: EventSource;
+  range: ResolvedWindow;
+  events: LGNSEvent[];
+  /** Every address in the window; rows below the threshold are left pending. */
+  rows: MergedData[];
+  /** Rows that passed the threshold at scan time, with their rewards. */
+  results: MergedData[];
+  gaps: BlockRange[];
+  fetchedBlocks: number;
+  cachedBlocks: number;
+  chunkSize: number;
+  blockTimes: Map<number, number>;
+  /** Endpoints that were healthy when the scan finished. */
+  rpcs: string[];
+}
+
+// Rows start out pending; rewards are only fetched once a row passes the threshold.
+export const pendingRewards = (row: AddressAggregate): MergedData => ({
+  ...row,
+  level: 0,
+  reward: 0,
+  isFetchingReward: true,
+});
+
+// Failed lookups keep zeroed rewards for sorting but carry the error so the row can be flagged.
+export const withRewards = (row: AddressAggregate, outcome: RewardOutcome): MergedData => ({
+  ...row,
+  level: outcome.rewards?.level ?? 0,
+  reward: outcome.rewards?.reward ?? 0,
+  isFetchingReward: false,
+  rewardRecords: outcome.rewards?.records,
+  rewardSchemaIssues: outcome.rewards?.schemaIssues,
+  error: outcome.error,
+});
+
+/**
+ * Scan, aggregation and reward merge as one call, shared by the dashboard and the CLI:
+ * probes the endpoints, resolves the window, syncs logs (through the IndexedDB cache where
+ * there is one), aggregates per address and fetches rewards for rows above the threshold.
+ */
+export const runScanPipeline = async ({
+  tracked,
+  profile,
+  rpcs,
+  window,
+  blockCount,
+  chunkSize,
+  batchSize,
+  maxInFlight,
+  threshold,
+  metric,
+  sampleTimes = true,
+  signal,
+  onEndpoints,
+  onRange,
+  onStage,
+  onScanProgress,
+  onRewardProgress
+}: ScanPipelineOptions): Promise<ScanPipelineResult> => {
+  const source = resolveEventSource(tracked);
+  let rpc: RpcPool | null = null;
+
+  try {
+    onStage?.('logs');
+    rpc = createRpcPool(rpcs, { maxInFlight, expectedChainId: source.chainId });
+    onEndpoints?.(await rpc.probe());
+    if (!rpc.endpoints().some(endpoint => endpoint.healthy)) {
+      throw new Error(`No healthy ${profile.name} RPC endpoint available. Check the endpoint list in settings.`);
+    }
+
+    const range = await resolveScanWindow(rpc, profile, window, blockCount, signal);
+    onRange?.(range);
+
+    const { events, fetchedBlocks, cachedBlocks, gaps, chunkSize: settledChunk } = await syncLogs(
+      rpc,
+      source,
+      range,
+      chunkSize,
+      { onProgress: onScanProgress, signal, batchSize }
+    );
+    onEndpoints?.(rpc.endpoints());
+    if (!Array.isArray(events)) throw new Error("Invalid response from blockchain node.");
+
+    let blockTimes = new Map<number, number>();
+    if (sampleTimes) {
+      try {
+        blockTimes = await sampleBlockTimes(rpc, source.chainId, range.start, range.end, signal);
+      } catch (timeErr) {
+        if (signal?.aborted) throw timeErr;
+        console.warn("Failed to load block timestamps:", timeErr);
+      }
+    }
+
+    const aggregates = aggregateEvents(events, source.address);
+    const thresholdRaw = metricThreshold(threshold, metric, source.decimals);
+    const passing = Array.from(aggregates.keys())
+      .filter(address => metricValue(aggregates.get(address)!, metric) >= thresholdRaw);
+
+    onStage?.('rewards');
+    onRewardProgress?.(0, passing.length);
+    let settled = 0;
+    const outcomes = await fetchRewardsForAddresses(passing, {
+      signal,
+      onResult: () => onRewardProgress?.(++settled, passing.length),
+    });
+
+    return {
+      source,
+      range,
+      events,
+      // Rows below the threshold are kept so lowering it later only needs their rewards.
+      rows: Array.from(aggregates.values()).map(row =>
+        outcomes.has(row.address) ? withRewards(row, outcomes.get(row.address)!) : pendingRewards(row)
+      ),
+      results: passing.map(address => withRewards(aggregates.get(address)!, outcomes.get(address)!)),
+      gaps,
+      fetchedBlocks,
+      cachedBlocks,
+      chunkSize: settledChunk,
+      blockTimes,
+      rpcs: rpc.endpoints().filter(endpoint => endpoint.healthy).map(endpoint => endpoint.url),
+    };
+  } catch (error) {
+    if (rpc && !signal?.aborted) onEndpoints?.(rpc.endpoints());
+    throw error;
+  }
+};
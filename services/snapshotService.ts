@@ -0,0 +1,78 @@
+import { SNAPSHOT_DB_NAME, MAX_SNAPSHOTS } from '../constants.ts';
+import { Snapshot, SnapshotSummary } from '../types.ts';
+import { openDatabase, txDone } from './idb.ts';
+
+const SNAPSHOT_STORE = 'snapshots';
+// Row-less copies of every snapshot, so listing never loads the row data.
+const SUMMARY_STORE = 'summaries';
+
+const toSummary = ({ data, events, blockTimes, ...summary }: Snapshot): SnapshotSummary => summary;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(SNAPSHOT_DB_NAME, 2, (db, tx, oldVersion) => {
+      if (oldVersion < 1) db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+      const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+      // v1 kept no summaries; derive them once from the stored snapshots.
+      const cursorRequest = tx.objectStore(SNAPSHOT_STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        summaries.put(toSummary(cursor.value));
+        cursor.continue();
+      };
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Persists a completed sync and prunes the oldest snapshots beyond MAX_SNAPSHOTS.
+ */
+export const saveSnapshot = async (snapshot: Snapshot): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SNAPSHOT_STORE, SUMMARY_STORE], 'readwrite');
+  const store = tx.objectStore(SNAPSHOT_STORE);
+  const summaries = tx.objectStore(SUMMARY_STORE);
+  store.put(snapshot);
+  summaries.put(toSummary(snapshot));
+  const keysRequest = summaries.getAllKeys();
+  keysRequest.onsuccess = () => {
+    const keys = (keysRequest.result as number[]).sort((a, b) => a - b);
+    keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).forEach(key => {
+      store.delete(key);
+      summaries.delete(key);
+    });
+  };
+  await txDone(tx);
+};
+
+/**
+ * Lists stored snapshots without their row data, newest first.
+ */
+export const listSnapshots = async (): Promise<SnapshotSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const request = tx.objectStore(SUMMARY_STORE).getAll();
+  await txDone(tx);
+  return (request.result as SnapshotSummary[]).sort((a, b) => b.id - a.id);
+};
+
+export const getSnapshot = async (id: number): Promise<Snapshot | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const request = tx.objectStore(SNAPSHOT_STORE).get(id);
+  await txDone(tx);
+  return request.result || null;
+};
+
+export const deleteSnapshot = async (id: number): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SNAPSHOT_STORE, SUMMARY_STORE], 'readwrite');
+  tx.objectStore(SNAPSHOT_STORE).delete(id);
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  await txDone(tx);
+};
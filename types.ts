@@ -1,29 +1,400 @@
 
 export interface LGNSEvent {
   address: string;
-  amount: number;
+  /** Raw integer token units as emitted on-chain (scale by LGNS_PRECISION to display). */
+  amount: bigint;
   blockNumber: number;
   transactionHash: string;
+  logIndex: number;
+}
+
+export interface TrackedEvent {
+  id: string;
+  name: string;
+  contractAddress: string;
+  /** Event fragment, human-readable or JSON ABI item. */
+  abi: string;
+  /** Optional topic0 override for events whose canonical signature is not published. */
+  topic?: string;
+  chain: string;
+  decimals: number;
+  /** Input holding the recipient address; defaults to the first address input. */
+  addressParam?: string;
+  /** Input holding the amount; defaults to the first uint input. */
+  amountParam?: string;
+}
+
+export interface ChainProfile {
+  key: string;
+  name: string;
+  /** EIP-155 chain id every RPC endpoint must report via `eth_chainId`. */
+  chainId: number;
+  /** Average seconds per block, used to size windows and estimate times. */
+  blockTime: number;
+  explorerUrl: string;
+  defaultRpc: string;
+}
+
+/** User overrides kept per chain so switching networks never mixes endpoints. */
+export interface ChainSettings {
+  /** RPC endpoints, one per line. */
+  rpcs: string;
+  explorerUrl: string;
+  blockRange: number;
+  /** Optional WebSocket endpoint for live mode; without it live mode polls over HTTP. */
+  wsUrl?: string;
+}
+
+/** One entry of the Ocros `/community/{address}/rewards` array. */
+export interface OcrosRewardRecord {
+  level: number;
+  reward: number;
+  /** Fields the model does not know about, kept verbatim so nothing is lost to reconciliation. */
+  extra: Record<string, unknown>;
 }
 
 export interface UserRewardData {
+  /** Level and reward of the first record, which the dashboard has always shown. */
   level: number;
   reward: number;
+  records: OcrosRewardRecord[];
+  /** Differences between the payload and the expected schema, one message each. */
+  schemaIssues: string[];
 }
 
 export interface MergedData {
   address: string;
-  latestLgns: number;
+  /** Amounts below are raw integer token units aggregated over the scanned window. */
+  latestLgns: bigint;
   latestTxHash: string;
+  totalLgns: bigint;
+  eventCount: number;
+  minLgns: bigint;
+  maxLgns: bigint;
+  firstBlock: number;
+  lastBlock: number;
+  latestEvent: LGNSEvent;
   level: number;
   reward: number;
   isFetchingReward: boolean;
+  rewardRecords?: OcrosRewardRecord[];
+  rewardSchemaIssues?: string[];
   error?: string;
 }
 
+export interface Watchlist {
+  id: string;
+  name: string;
+  /** Lowercase addresses. */
+  addresses: string[];
+}
+
+/** Locally kept address annotations: free-text labels and named watchlists. */
+export interface AddressBook {
+  /** Lowercase address -> label. */
+  labels: Record<string, string>;
+  watchlists: Watchlist[];
+}
+
+export type FilterField = 'level' | 'reward' | 'totalLgns' | 'eventCount';
+
+/**
+ * One filter rule. `range` rules use `field`/`min`/`max` (inclusive, either side optional);
+ * `include`/`exclude` rules use `addresses`.
+ */
+export interface FilterCondition {
+  id: string;
+  kind: 'range' | 'include' | 'exclude';
+  field?: FilterField;
+  min?: number;
+  max?: number;
+  addresses?: string[];
+}
+
+export interface FilterGroup {
+  id: string;
+  combinator: 'and' | 'or';
+  conditions: FilterCondition[];
+}
+
+/** Groups combined with `combinator`; an empty spec matches every row. */
+export interface FilterSpec {
+  combinator: 'and' | 'or';
+  groups: FilterGroup[];
+}
+
+export interface FilterPreset {
+  name: string;
+  spec: FilterSpec;
+}
+
 export interface DashboardStats {
   totalUsers: number;
-  totalLgns: number;
+  totalLgns: bigint;
   avgLevel: number;
-  peakOutput: number;
+  peakOutput: bigint;
+}
+
+export type BlockRange = [number, number];
+
+export interface ScanResult {
+  events: LGNSEvent[];
+  failedRanges: BlockRange[];
+  chunkSize: number;
+}
+
+export interface SyncResult {
+  events: LGNSEvent[];
+  range: { start: number; end: number };
+  fetchedBlocks: number;
+  cachedBlocks: number;
+  gaps: BlockRange[];
+  chunkSize: number;
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  headBlock: number | null;
+  /** Chain id reported by the endpoint, once probed. */
+  chainId?: number | null;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastChecked?: number;
+  /** Set once the endpoint rejected a JSON-RPC batch; requests are then sent one by one. */
+  batchUnsupported?: boolean;
+}
+
+export type WindowPreset =
+  | 'blocks'
+  | 'last24h'
+  | 'last7d'
+  | 'last30d'
+  | 'todayUtc'
+  | 'yesterdayUtc'
+  | 'lastWeekUtc'
+  | 'lastMonthUtc'
+  | 'custom';
+
+/** What to scan: the latest N blocks, a calendar preset, or a custom UTC range. */
+export interface ScanWindow {
+  preset: WindowPreset;
+  /** Custom range start, unix seconds (inclusive). */
+  from?: number;
+  /** Custom range end, unix seconds (exclusive). */
+  to?: number;
+}
+
+/** A scan window resolved to an inclusive block range and the timestamps of its end blocks. */
+export interface ResolvedWindow {
+  start: number;
+  end: number;
+  startTime: number | null;
+  endTime: number | null;
+  /** Chain head when the window was resolved; blocks close to it may still be reorged. */
+  head?: number;
+}
+
+export interface SnapshotSettings {
+  blockRange: number;
+  window?: ScanWindow;
+  threshold: number;
+  metric: string;
+  chunkSize: number;
+  /** Endpoints that were healthy when the scan ran. */
+  rpcs?: string[];
+}
+
+export interface SnapshotSummary {
+  id: number;
+  trackedEventId?: string;
+  decimals?: number;
+  createdAt: number;
+  range: { start: number; end: number };
+  settings: SnapshotSettings;
+  stats: DashboardStats;
+  gaps: BlockRange[];
+}
+
+export interface Snapshot extends SnapshotSummary {
+  data: MergedData[];
+  /** Window events of the saved rows; snapshots from older versions do not have them. */
+  events?: LGNSEvent[];
+  /** Sampled block timestamps of the scanned range, for the hourly chart. */
+  blockTimes?: Map<number, number>;
+}
+
+export interface SnapshotDiff {
+  newAddresses: string[];
+  droppedAddresses: string[];
+  levelChanges: { address: string; from: number; to: number }[];
+  rewardChanges: { address: string; from: number; to: number }[];
+  outputChanges: { address: string; from: bigint; to: bigint }[];
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'manifest';
+
+/** Describes the scan an export was taken from so the file stands on its own. */
+export interface ExportMetadata {
+  generatedAt: string;
+  eventName: string;
+  chain: string;
+  chainId: number;
+  contract: string;
+  rpcs: string[];
+  blockStart: number;
+  blockEnd: number;
+  startTime: string | null;
+  endTime: string | null;
+  threshold: number;
+  metric: string;
+  decimals: number;
+  snapshotId: number | null;
+  /** Block ranges the scan could not fetch; a non-empty list means the data is incomplete. */
+  gaps: BlockRange[];
+  rowCount: number;
+}
+
+/** One address read back from an export, a payout manifest or a finance payout list. */
+export interface ImportedRow {
+  address: string;
+  /** Raw token units; undefined when the file has no amount column. */
+  amount?: bigint;
+  level?: number;
+}
+
+export interface ImportedFile {
+  name: string;
+  format: 'csv' | 'json' | 'ndjson' | 'manifest';
+  rows: ImportedRow[];
+  /** Metric the amounts were taken from, when the file records it. */
+  metric?: string;
+  /** Block range recorded in the file's metadata. */
+  blocks?: string;
+  /** Manifest checksum result; undefined for other formats. */
+  checksumValid?: boolean;
+  /** Rows that could not be read, e.g. invalid addresses or amounts. */
+  skipped: number;
+  /** False when no amount column or field was found, so amounts cannot be compared. */
+  hasAmounts: boolean;
+}
+
+export interface ReconciliationReport {
+  matched: number;
+  /** In the file but not in the current data. */
+  missingFromCurrent: ImportedRow[];
+  /** In the current data but not in the file. */
+  missingFromFile: string[];
+  amountMismatches: { address: string; imported: bigint; current: bigint }[];
+  levelMismatches: { address: string; imported: number; current: number }[];
+  /** In both, but the file has no amount to compare; never counted as matched. */
+  withoutAmount: string[];
+  duplicates: string[];
+}
+
+export type LiveTransport = 'websocket' | 'polling';
+
+export interface LiveStatus {
+  transport: LiveTransport;
+  head: number | null;
+  lastSweepAt: number | null;
+  /** Events dropped because their block was reorganised away. */
+  reorgedEvents: number;
+  error?: string;
+}
+
+export interface LiveFeedEntry {
+  event: LGNSEvent;
+  removed: boolean;
+  receivedAt: number;
+}
+
+export type AlertRuleKind = 'largeEvent' | 'newHighLevel' | 'outputDrop' | 'scanGaps';
+
+export interface AlertRule {
+  id: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  /**
+   * Token amount for `largeEvent`, minimum level for `newHighLevel`, percentage for
+   * `outputDrop`; unused by `scanGaps`.
+   */
+  value: number;
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  notifications: boolean;
+  webhookUrl: string;
+}
+
+export interface AlertEntry {
+  /** Rule id plus the subject (event, address or run), so a match is only reported once. */
+  fingerprint: string;
+  ruleId: string;
+  kind: AlertRuleKind;
+  title: string;
+  message: string;
+  firedAt: number;
+  /** Set when the webhook POST failed. */
+  webhookError?: string;
+}
+
+/** Which model backend analyses a sync; `openai` covers any OpenAI-compatible server such as Ollama. */
+export type AnalysisProviderKind = 'off' | 'gemini' | 'openai';
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderKind;
+  /** Model name; empty uses the provider default. */
+  model: string;
+  /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl: string;
+  /** Bearer token for the OpenAI-compatible API; local servers usually need none. */
+  apiKey: string;
+  /** Analyse automatically after every completed sync. */
+  autoRun: boolean;
+}
+
+export type FindingSeverity = 'info' | 'notice' | 'warning';
+
+export interface AnalysisFinding {
+  title: string;
+  detail: string;
+  severity: FindingSeverity;
+}
+
+export interface FlaggedAddress {
+  /** Lowercase address; only addresses present in the analysed rows are kept. */
+  address: string;
+  reason: string;
+}
+
+export interface AnalysisResult {
+  summary: string;
+  findings: AnalysisFinding[];
+  flaggedAddresses: FlaggedAddress[];
+  /** Model's own confidence in the analysis, 0–1. */
+  confidence: number;
+  provider: AnalysisProviderKind;
+  model: string;
+  generatedAt: number;
+}
+
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  /** Rows the call matched. */
+  matched: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  /** Assistant only: the dataset tools that produced the answer. */
+  toolCalls?: ChatToolCall[];
+  /** Assistant only: lowercase addresses of the rows the answer is based on. */
+  addresses?: string[];
+  error?: boolean;
 }
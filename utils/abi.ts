@@ -0,0 +1,118 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+export interface AbiEventInput {
+  name: string;
+  type: string;
+  indexed: boolean;
+}
+
+export interface AbiEventFragment {
+  name: string;
+  inputs: AbiEventInput[];
+}
+
+export type AbiValue = bigint | string | boolean;
+
+const WORD_HEX = 64;
+
+/**
+ * Parses an event fragment given either as a JSON ABI item or in human-readable form,
+ * e.g. `event Transfer(address indexed from, address indexed to, uint256 value)`.
+ */
+export const parseEventFragment = (text: string): AbiEventFragment => {
+  const source = text.trim();
+  if (source.startsWith('{') || source.startsWith('[')) {
+    const parsed = JSON.parse(source);
+    const item = Array.isArray(parsed) ? parsed.find((entry: any) => entry.type === 'event') : parsed;
+    if (!item || !item.name || !Array.isArray(item.inputs)) throw new Error('ABI JSON does not contain an event.');
+    return {
+      name: item.name,
+      inputs: item.inputs.map((input: any, i: number) => ({
+        name: input.name || `arg${i}`,
+        type: normalizeType(input.type),
+        indexed: Boolean(input.indexed),
+      })),
+    };
+  }
+
+  const match = /^(?:event\s+)?([A-Za-z_$][\w$]*)\s*\((.*)\)\s*;?$/s.exec(source);
+  if (!match) throw new Error('Expected "event Name(type [indexed] name, ...)".');
+  const [, name, params] = match;
+  const inputs = params.trim() === '' ? [] : params.split(',').map((param, i) => {
+    const parts = param.trim().split(/\s+/);
+    if (parts.length === 0 || !parts[0]) throw new Error(`Empty parameter at position ${i + 1}.`);
+    const indexed = parts.includes('indexed');
+    const rest = parts.filter(part => part !== 'indexed');
+    return { type: normalizeType(rest[0]), name: rest[1] || `arg${i}`, indexed };
+  });
+  return { name, inputs };
+};
+
+const normalizeType = (type: string) => {
+  if (type === 'uint') return 'uint256';
+  if (type === 'int') return 'int256';
+  if (!/^(address|bool|string|bytes\d*|u?int\d*)$/.test(type)) {
+    throw new Error(`Unsupported ABI type "${type}".`);
+  }
+  return type;
+};
+
+export const eventSignature = (fragment: AbiEventFragment) =>
+  `${fragment.name}(${fragment.inputs.map(input => input.type).join(',')})`;
+
+/**
+ * topic0 of an event: keccak256 of its canonical signature.
+ */
+export const eventTopic = (fragment: AbiEventFragment) =>
+  `0x${bytesToHex(keccak_256(utf8ToBytes(eventSignature(fragment))))}`;
+
+const isDynamic = (type: string) => type === 'string' || type === 'bytes';
+
+const decodeWord = (type: string, word: string): AbiValue => {
+  if (type === 'address') return `0x${word.slice(24)}`.toLowerCase();
+  if (type === 'bool') return BigInt(`0x${word}`) !== 0n;
+  if (type.startsWith('uint')) return BigInt(`0x${word}`);
+  if (type.startsWith('int')) return BigInt.asIntN(Number(type.slice(3)) || 256, BigInt(`0x${word}`));
+  // bytesN keeps its left-aligned hex
+  const size = Number(type.slice(5));
+  return `0x${word.slice(0, size * 2)}`;
+};
+
+const decodeDynamic = (type: string, data: string, offsetBytes: number): AbiValue => {
+  const start = offsetBytes * 2;
+  const length = Number(BigInt(`0x${data.slice(start, start + WORD_HEX)}`));
+  const hex = data.slice(start + WORD_HEX, start + WORD_HEX + length * 2);
+  if (type === 'bytes') return `0x${hex}`;
+  const bytes = new Uint8Array(hex.match(/../g)?.map(byte => parseInt(byte, 16)) || []);
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Decodes a raw log against its fragment into a name -> value record. Indexed dynamic
+ * values are only available as their keccak hash and are returned as hex.
+ */
+export const decodeEventLog = (
+  fragment: AbiEventFragment,
+  log: { topics: string[]; data: string }
+): Record<string, AbiValue> => {
+  const values: Record<string, AbiValue> = {};
+  const data = (log.data || '0x').replace(/^0x/, '');
+  let topicIndex = 1;
+  let wordIndex = 0;
+
+  fragment.inputs.forEach(input => {
+    if (input.indexed) {
+      const topic = (log.topics[topicIndex++] || '').replace(/^0x/, '').padStart(WORD_HEX, '0');
+      values[input.name] = isDynamic(input.type) ? `0x${topic}` : decodeWord(input.type, topic);
+      return;
+    }
+    const word = data.slice(wordIndex * WORD_HEX, (wordIndex + 1) * WORD_HEX).padEnd(WORD_HEX, '0');
+    wordIndex++;
+    values[input.name] = isDynamic(input.type)
+      ? decodeDynamic(input.type, data, Number(BigInt(`0x${word}`)))
+      : decodeWord(input.type, word);
+  });
+
+  return values;
+};
@@ -0,0 +1,102 @@
+import { LGNSEvent, MergedData, DashboardStats } from '../types.ts';
+import { formatAmount, parseAmount, sumAmounts, maxAmount } from './amount.ts';
+
+export type AmountMetric = 'totalLgns' | 'maxLgns' | 'minLgns' | 'latestLgns' | 'eventCount';
+
+export const METRIC_LABELS: Record<AmountMetric, string> = {
+  totalLgns: 'Total Output',
+  maxLgns: 'Max Single Event',
+  minLgns: 'Min Single Event',
+  latestLgns: 'Latest Event',
+  eventCount: 'Event Count',
+};
+
+export type AddressAggregate = Pick<
+  MergedData,
+  'address' | 'latestLgns' | 'latestTxHash' | 'totalLgns' | 'eventCount' | 'minLgns' | 'maxLgns' | 'firstBlock' | 'lastBlock' | 'latestEvent'
+>;
+
+/**
+ * Identifies a log by position, so the same transaction re-included in another block
+ * after a reorg counts as a removal plus an addition.
+ */
+export const eventKey = (event: LGNSEvent) => `${event.blockNumber}:${event.transactionHash}:${event.logIndex}`;
+
+const isLater = (a: LGNSEvent, b: LGNSEvent) =>
+  a.blockNumber > b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex);
+
+/**
+ * Folds every event in the window into one aggregate per address. Events emitted to
+ * `excludeAddress` (the contract itself) are skipped.
+ */
+export const aggregateEvents = (events: LGNSEvent[], excludeAddress?: string): Map<string, AddressAggregate> => {
+  const excluded = (excludeAddress || '').toLowerCase();
+  const aggregates = new Map<string, AddressAggregate>();
+
+  events.forEach(event => {
+    if (!event || !event.address) return;
+    const addr = event.address.toLowerCase();
+    if (addr === excluded) return;
+
+    const current = aggregates.get(addr);
+    if (!current) {
+      aggregates.set(addr, {
+        address: addr,
+        latestLgns: event.amount,
+        latestTxHash: event.transactionHash,
+        totalLgns: event.amount,
+        eventCount: 1,
+        minLgns: event.amount,
+        maxLgns: event.amount,
+        firstBlock: event.blockNumber,
+        lastBlock: event.blockNumber,
+        latestEvent: event,
+      });
+      return;
+    }
+
+    current.totalLgns += event.amount;
+    current.eventCount += 1;
+    if (event.amount < current.minLgns) current.minLgns = event.amount;
+    if (event.amount > current.maxLgns) current.maxLgns = event.amount;
+    current.firstBlock = Math.min(current.firstBlock, event.blockNumber);
+    current.lastBlock = Math.max(current.lastBlock, event.blockNumber);
+    if (isLater(event, current.latestEvent)) {
+      current.latestEvent = event;
+      current.latestLgns = event.amount;
+      current.latestTxHash = event.transactionHash;
+    }
+  });
+
+  return aggregates;
+};
+
+/**
+ * Value of the chosen metric as a bigint so amounts and counts compare the same way.
+ */
+export const metricValue = (row: AddressAggregate, metric: AmountMetric): bigint =>
+  metric === 'eventCount' ? BigInt(row.eventCount) : row[metric];
+
+/**
+ * Interprets the user threshold in the unit of the chosen metric.
+ */
+export const metricThreshold = (threshold: number, metric: AmountMetric, decimals?: number): bigint =>
+  metric === 'eventCount' ? BigInt(Math.max(0, Math.ceil(threshold || 0))) : parseAmount(threshold, decimals);
+
+export const formatMetric = (row: AddressAggregate, metric: AmountMetric, decimals?: number): string =>
+  metric === 'eventCount' ? row.eventCount.toLocaleString() : formatAmount(row[metric], 2, decimals);
+
+/**
+ * Headline numbers for the stat cards and snapshots.
+ */
+export const computeStats = (data: MergedData[]): DashboardStats => {
+  if (!data || data.length === 0) return { totalUsers: 0, totalLgns: 0n, avgLevel: 0, peakOutput: 0n };
+  const totalLgns = sumAmounts(data.map(d => d.totalLgns));
+  const peak = maxAmount(data.map(d => d.maxLgns));
+  // Rows whose reward lookup failed have no real level and would drag the average down.
+  const leveled = data.filter(d => !d.error);
+  const avgLvl = leveled.length > 0
+    ? leveled.reduce((acc, curr) => acc + (Number(curr.level) || 0), 0) / leveled.length
+    : 0;
+  return { totalUsers: data.length, totalLgns, avgLevel: avgLvl, peakOutput: peak };
+};
@@ -0,0 +1,130 @@
+import { AlertRule, AlertRuleKind, BlockRange, LGNSEvent, MergedData, Snapshot } from '../types.ts';
+import { AmountMetric, METRIC_LABELS, eventKey, metricThreshold, metricValue } from './aggregation.ts';
+import { formatAmount, parseAmount, sumAmounts } from './amount.ts';
+
+export const ALERT_RULE_LABELS: Record<AlertRuleKind, string> = {
+  largeEvent: 'Single event above (LGNS)',
+  newHighLevel: 'New address at level ≥',
+  outputDrop: 'Total output drop vs previous run (%)',
+  scanGaps: 'Scan finished with gaps',
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'large-event', kind: 'largeEvent', enabled: false, value: 1000 },
+  { id: 'new-high-level', kind: 'newHighLevel', enabled: false, value: 5 },
+  { id: 'output-drop', kind: 'outputDrop', enabled: false, value: 30 },
+  { id: 'scan-gaps', kind: 'scanGaps', enabled: true, value: 0 },
+];
+
+export interface AlertContext {
+  /** Snapshot id of the run being evaluated; null until a sync completed. */
+  runId: number | null;
+  /** Rows passing `threshold` on `metric`. */
+  rows: MergedData[];
+  threshold: number;
+  metric: AmountMetric;
+  events: LGNSEvent[];
+  gaps: BlockRange[];
+  /** The run before `runId`; rules comparing against history stay silent without it. */
+  baseline: Snapshot | null;
+  decimals: number;
+  /** Events emitted to the contract itself are not distributions. */
+  contractAddress: string;
+}
+
+export interface AlertMatch {
+  fingerprint: string;
+  ruleId: string;
+  kind: AlertRuleKind;
+  title: string;
+  message: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Total output of both runs over the rows that pass the current threshold and the one the
+ * baseline was saved with, so a changed threshold or metric does not read as a drop.
+ */
+const comparableTotals = ({ rows, threshold, metric, baseline, decimals }: AlertContext) => {
+  const baselineMetric = (Object.hasOwn(METRIC_LABELS, baseline!.settings.metric) ? baseline!.settings.metric : 'totalLgns') as AmountMetric;
+  const currentRaw = metricThreshold(threshold, metric, decimals);
+  const baselineRaw = metricThreshold(baseline!.settings.threshold, baselineMetric, baseline!.decimals ?? decimals);
+  const inScope = (row: MergedData) => metricValue(row, metric) >= currentRaw && metricValue(row, baselineMetric) >= baselineRaw;
+  return {
+    previous: sumAmounts(baseline!.data.filter(inScope).map(row => row.totalLgns)),
+    current: sumAmounts(rows.filter(inScope).map(row => row.totalLgns)),
+  };
+};
+
+/**
+ * Lists every match of the enabled rules. Matches carry a fingerprint so callers can drop
+ * the ones already reported by an earlier evaluation.
+ */
+export const evaluateAlertRules = (rules: AlertRule[], context: AlertContext): AlertMatch[] => {
+  const { runId, rows, events, gaps, baseline, decimals, contractAddress } = context;
+  const matches: AlertMatch[] = [];
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    switch (rule.kind) {
+      case 'largeEvent': {
+        const limit = parseAmount(rule.value, decimals);
+        events
+          .filter(event => event.amount > limit && event.address.toLowerCase() !== contractAddress)
+          .forEach(event => matches.push({
+            fingerprint: `${rule.id}:${eventKey(event)}`,
+            ruleId: rule.id,
+            kind: rule.kind,
+            title: 'Large single event',
+            message: `${shortAddress(event.address)} received ${formatAmount(event.amount, 2, decimals)} LGNS in block ${event.blockNumber.toLocaleString()} (limit ${rule.value}).`,
+          }));
+        break;
+      }
+      case 'newHighLevel': {
+        if (!baseline) break;
+        const known = new Set<string>(baseline.data.map(row => row.address));
+        rows
+          .filter(row => !known.has(row.address) && !row.isFetchingReward && !row.error && row.level >= rule.value)
+          .forEach(row => matches.push({
+            fingerprint: `${rule.id}:${row.address}`,
+            ruleId: rule.id,
+            kind: rule.kind,
+            title: 'New high-level address',
+            message: `${shortAddress(row.address)} is new since the previous run and already at level ${row.level}.`,
+          }));
+        break;
+      }
+      case 'outputDrop': {
+        if (!baseline || runId === null) break;
+        const { previous, current } = comparableTotals(context);
+        if (previous <= 0n) break;
+        // Basis points keep the comparison in integers.
+        const dropBps = Number(((previous - current) * 10000n) / previous);
+        if (dropBps / 100 >= rule.value) {
+          matches.push({
+            fingerprint: `${rule.id}:${runId}`,
+            ruleId: rule.id,
+            kind: rule.kind,
+            title: 'Total output dropped',
+            message: `Total output fell ${(dropBps / 100).toFixed(1)}% from ${formatAmount(previous, 2, decimals)} to ${formatAmount(current, 2, decimals)} LGNS.`,
+          });
+        }
+        break;
+      }
+      case 'scanGaps': {
+        if (runId === null || gaps.length === 0) break;
+        const blocks = gaps.reduce((acc, [from, to]) => acc + to - from + 1, 0);
+        matches.push({
+          fingerprint: `${rule.id}:${runId}`,
+          ruleId: rule.id,
+          kind: rule.kind,
+          title: 'Scan has gaps',
+          message: `${gaps.length} block range(s), ${blocks.toLocaleString()} blocks in total, could not be fetched.`,
+        });
+        break;
+      }
+    }
+  });
+
+  return matches;
+};
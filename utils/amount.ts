@@ -0,0 +1,55 @@
+import { LGNS_PRECISION } from '../constants.ts';
+
+/**
+ * Renders a raw integer token amount as an exact decimal string, e.g. 1234500000n -> "1.2345".
+ * Trailing fractional zeros are dropped unless `minFractionDigits` asks to keep them.
+ */
+export const toDecimalString = (raw: bigint, decimals: number = LGNS_PRECISION, minFractionDigits: number = 0): string => {
+  const negative = raw < 0n;
+  const abs = negative ? -raw : raw;
+  const base = 10n ** BigInt(decimals);
+  const whole = (abs / base).toString();
+  let fraction = decimals > 0 ? (abs % base).toString().padStart(decimals, '0') : '';
+  fraction = fraction.replace(/0+$/, '').padEnd(Math.min(minFractionDigits, decimals), '0');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Formats a raw amount for display, rounding half-up to `fractionDigits` places.
+ */
+export const formatAmount = (raw: bigint, fractionDigits: number = 2, decimals: number = LGNS_PRECISION): string => {
+  if (fractionDigits >= decimals) return toDecimalString(raw, decimals, fractionDigits);
+  const step = 10n ** BigInt(decimals - fractionDigits);
+  const abs = raw < 0n ? -raw : raw;
+  const rounded = ((abs + step / 2n) / step) * step;
+  return toDecimalString(raw < 0n ? -rounded : rounded, decimals, fractionDigits);
+};
+
+/**
+ * Parses a human decimal ("4", "0.25", or "1e21" as `Number#toString` prints large values)
+ * into raw integer units without going through floats. Digits beyond `decimals` are truncated.
+ */
+export const parseAmount = (value: string | number, decimals: number = LGNS_PRECISION): bigint => {
+  const text = String(value).trim();
+  const match = /^(-)?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) return 0n;
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  // digits × 10^shift is the raw value; a negative shift drops digits beyond the precision.
+  const digits = BigInt(`${whole}${fraction}` || '0');
+  const shift = decimals + Number(exponent) - fraction.length;
+  const raw = shift >= 0 ? digits * 10n ** BigInt(shift) : digits / 10n ** BigInt(-shift);
+  return sign ? -raw : raw;
+};
+
+/**
+ * Lossy conversion for charts and other visual scales only; never use it for totals.
+ */
+export const amountToNumber = (raw: bigint, decimals: number = LGNS_PRECISION): number =>
+  Number(toDecimalString(raw, decimals));
+
+export const sumAmounts = (values: bigint[]): bigint => values.reduce((acc, value) => acc + value, 0n);
+
+export const maxAmount = (values: bigint[]): bigint =>
+  values.reduce((max, value) => (value > max ? value : max), 0n);
+
+export const compareAmounts = (a: bigint, b: bigint): number => (a === b ? 0 : a < b ? -1 : 1);
@@ -0,0 +1,216 @@
+import { AnalysisFinding, BlockRange, FindingSeverity, FlaggedAddress, MergedData, ResolvedWindow, Snapshot } from '../types.ts';
+import { amountToNumber, compareAmounts, sumAmounts } from './amount.ts';
+import { diffSnapshots } from './snapshotDiff.ts';
+
+const TOP_ADDRESSES = 10;
+const TOP_MOVERS = 5;
+const MAX_OUTLIERS = 10;
+// Output more than this many times the median counts as an outlier.
+const OUTLIER_FACTOR = 10;
+const SEVERITIES: FindingSeverity[] = ['info', 'notice', 'warning'];
+
+export interface AnalysisInput {
+  /** Rows passing the threshold. */
+  rows: MergedData[];
+  decimals: number;
+  chainName: string;
+  eventName: string;
+  range: Partial<ResolvedWindow> | null;
+  gaps: BlockRange[];
+  /** Previous run of the same event; deltas are omitted without it. */
+  baseline: Snapshot | null;
+}
+
+/** The dataset as the model sees it: statistics and distributions, never the full row list. */
+export interface AnalysisContext {
+  chain: string;
+  event: string;
+  window: { blockStart: number | null; blockEnd: number | null; startTime: string | null; endTime: string | null; gapRanges: number };
+  addresses: number;
+  output: { total: number; mean: number; median: number; p90: number; max: number; top10SharePct: number; gini: number };
+  eventsPerAddress: { total: number; mean: number; median: number; max: number };
+  levels: Record<string, number>;
+  rewards: { total: number; mean: number; zeroRewardAddresses: number; failedLookups: number };
+  /** Address counts per output band, in whole tokens. */
+  outputBands: { band: string; addresses: number }[];
+  topAddresses: { address: string; output: number; events: number; level: number; reward: number }[];
+  outliers: { address: string; output: number; timesMedian: number }[];
+  delta: null | {
+    previousRunAt: string;
+    addresses: { previous: number; current: number; new: number; dropped: number };
+    totalOutput: { previous: number; current: number; changePct: number | null };
+    levelsUp: number;
+    levelsDown: number;
+    topMovers: { address: string; previous: number; current: number }[];
+  };
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const quantile = (sorted: number[], q: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+// 0 for perfectly even output, approaching 1 when one address produces everything.
+const gini = (sorted: number[]) => {
+  const total = sorted.reduce((acc, value) => acc + value, 0);
+  if (sorted.length === 0 || total === 0) return 0;
+  const weighted = sorted.reduce((acc, value, index) => acc + (index + 1) * value, 0);
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+};
+
+const outputBands = (outputs: number[]) => {
+  const bands = [0, 1, 10, 100, 1000, 10000];
+  return bands.map((from, index) => {
+    const to = bands[index + 1];
+    return {
+      band: to === undefined ? `${from}+` : `${from}-${to}`,
+      addresses: outputs.filter(value => value >= from && (to === undefined || value < to)).length,
+    };
+  }).filter(band => band.addresses > 0);
+};
+
+const toIso = (seconds?: number | null) =>
+  seconds === null || seconds === undefined ? null : new Date(seconds * 1000).toISOString();
+
+/**
+ * Condenses a result set into the aggregate statistics, distributions and run-over-run
+ * deltas sent to the analysis model.
+ */
+export const buildAnalysisContext = ({ rows, decimals, chainName, eventName, range, gaps, baseline }: AnalysisInput): AnalysisContext => {
+  const toTokens = (raw: bigint) => round(amountToNumber(raw, decimals));
+  const byOutput = [...rows].sort((a, b) => compareAmounts(b.totalLgns, a.totalLgns));
+  const outputs = byOutput.map(row => toTokens(row.totalLgns)).reverse();
+  const total = sumAmounts(rows.map(row => row.totalLgns));
+  const totalTokens = toTokens(total);
+  const median = quantile(outputs, 0.5);
+  const events = rows.map(row => row.eventCount).sort((a, b) => a - b);
+  const eventTotal = events.reduce((acc, value) => acc + value, 0);
+  const settled = rows.filter(row => !row.isFetchingReward && !row.error);
+  const rewardTotal = settled.reduce((acc, row) => acc + row.reward, 0);
+
+  const levels: Record<string, number> = {};
+  settled.forEach(row => { levels[row.level] = (levels[row.level] || 0) + 1; });
+
+  let delta: AnalysisContext['delta'] = null;
+  if (baseline) {
+    const diff = diffSnapshots(baseline.data, rows);
+    const previousTotal = toTokens(baseline.stats.totalLgns);
+    delta = {
+      previousRunAt: new Date(baseline.createdAt).toISOString(),
+      addresses: { previous: baseline.data.length, current: rows.length, new: diff.newAddresses.length, dropped: diff.droppedAddresses.length },
+      totalOutput: {
+        previous: previousTotal,
+        current: totalTokens,
+        changePct: previousTotal === 0 ? null : round(((totalTokens - previousTotal) / previousTotal) * 100, 1),
+      },
+      levelsUp: diff.levelChanges.filter(change => change.to > change.from).length,
+      levelsDown: diff.levelChanges.filter(change => change.to < change.from).length,
+      topMovers: [...diff.outputChanges]
+        .sort((a, b) => {
+          const moveA = a.to > a.from ? a.to - a.from : a.from - a.to;
+          const moveB = b.to > b.from ? b.to - b.from : b.from - b.to;
+          return compareAmounts(moveB, moveA);
+        })
+        .slice(0, TOP_MOVERS)
+        .map(change => ({ address: change.address, previous: toTokens(change.from), current: toTokens(change.to) })),
+    };
+  }
+
+  return {
+    chain: chainName,
+    event: eventName,
+    window: {
+      blockStart: range?.start ?? null,
+      blockEnd: range?.end ?? null,
+      startTime: toIso(range?.startTime),
+      endTime: toIso(range?.endTime),
+      gapRanges: gaps.length,
+    },
+    addresses: rows.length,
+    output: {
+      total: totalTokens,
+      mean: rows.length ? round(totalTokens / rows.length) : 0,
+      median,
+      p90: quantile(outputs, 0.9),
+      max: outputs[outputs.length - 1] ?? 0,
+      top10SharePct: total > 0n
+        ? round((amountToNumber(sumAmounts(byOutput.slice(0, TOP_ADDRESSES).map(row => row.totalLgns)), decimals) / amountToNumber(total, decimals)) * 100, 1)
+        : 0,
+      gini: round(gini(outputs), 3),
+    },
+    eventsPerAddress: {
+      total: eventTotal,
+      mean: rows.length ? round(eventTotal / rows.length) : 0,
+      median: quantile(events, 0.5),
+      max: events[events.length - 1] ?? 0,
+    },
+    levels,
+    rewards: {
+      total: round(rewardTotal),
+      mean: settled.length ? round(rewardTotal / settled.length) : 0,
+      zeroRewardAddresses: settled.filter(row => row.reward === 0).length,
+      failedLookups: rows.filter(row => row.error).length,
+    },
+    outputBands: outputBands(outputs),
+    topAddresses: byOutput.slice(0, TOP_ADDRESSES).map(row => ({
+      address: row.address,
+      output: toTokens(row.totalLgns),
+      events: row.eventCount,
+      level: row.level,
+      reward: round(row.reward),
+    })),
+    outliers: median > 0
+      ? byOutput
+        .filter(row => toTokens(row.totalLgns) >= median * OUTLIER_FACTOR)
+        .slice(0, MAX_OUTLIERS)
+        .map(row => ({ address: row.address, output: toTokens(row.totalLgns), timesMedian: round(toTokens(row.totalLgns) / median, 1) }))
+      : [],
+    delta,
+  };
+};
+
+export const ANALYSIS_INSTRUCTIONS = `You review on-chain token distribution data for an operations team.
+"output" is the token amount each address received from the tracked event over the scan window, across "events" emissions.
+"level" and "reward" come from the DAO reward API. "delta" compares against the previous run and is null on the first run.
+Report what is notable: concentration, unusual addresses, changes since the previous run and data quality problems (gap ranges, failed lookups).
+Only flag addresses that appear in the data. Answer with JSON only, in this shape:
+{"summary": string, "findings": [{"title": string, "detail": string, "severity": "info" | "notice" | "warning"}], "flaggedAddresses": [{"address": string, "reason": string}], "confidence": number between 0 and 1}`;
+
+export const analysisPrompt = (context: AnalysisContext) =>
+  `${ANALYSIS_INSTRUCTIONS}\n\nData:\n${JSON.stringify(context)}`;
+
+export type ParsedAnalysis = { summary: string; findings: AnalysisFinding[]; flaggedAddresses: FlaggedAddress[]; confidence: number };
+
+/**
+ * Validates a model reply. Code fences around the JSON are tolerated, malformed entries are
+ * dropped and flagged addresses the data does not contain are discarded.
+ */
+export const parseAnalysisResponse = (text: string, knownAddresses: Set<string>): ParsedAnalysis => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('The model did not return valid JSON.');
+  }
+  if (!raw || typeof raw !== 'object') throw new Error('The model returned an unexpected response.');
+
+  const findings: AnalysisFinding[] = (Array.isArray(raw.findings) ? raw.findings : [])
+    .filter((finding: any) => finding && typeof finding.title === 'string')
+    .map((finding: any) => ({
+      title: finding.title,
+      detail: typeof finding.detail === 'string' ? finding.detail : '',
+      severity: SEVERITIES.includes(finding.severity) ? finding.severity : 'info',
+    }));
+  const flaggedAddresses: FlaggedAddress[] = (Array.isArray(raw.flaggedAddresses) ? raw.flaggedAddresses : [])
+    .filter((flag: any) => flag && typeof flag.address === 'string' && knownAddresses.has(flag.address.toLowerCase()))
+    .map((flag: any) => ({ address: flag.address.toLowerCase(), reason: typeof flag.reason === 'string' ? flag.reason : '' }));
+  const confidence = Number(raw.confidence);
+
+  return {
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    findings,
+    flaggedAddresses,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+  };
+};
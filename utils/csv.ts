@@ -0,0 +1,63 @@
+// Spreadsheets run text cells starting with these as formulas. Quotes already in front are
+// included so that the guard stays reversible.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quotes a field when it contains a delimiter, quote or line break (RFC 4180). Text that a
+ * spreadsheet would evaluate as a formula gets a leading `'`; parseCsv removes it again.
+ */
+export const escapeCsvField = (value: unknown) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const unescapeFormula = (field: string) => (field.startsWith("'") && FORMULA_START.test(field) ? field.slice(1) : field);
+
+export const toCsv = (rows: unknown[][]) =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks.
+ * A leading BOM and a trailing empty line are ignored, and escapeCsvField's formula guard
+ * is undone.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(unescapeFormula(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(unescapeFormula(field));
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(unescapeFormula(field));
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,160 @@
+import { CHAT_ROW_LIMIT } from '../constants.ts';
+import { FilterCondition, FilterField, FilterSpec, MergedData } from '../types.ts';
+import { matchesFilter } from './filters.ts';
+import { toDecimalString } from './amount.ts';
+
+export interface DatasetToolContext {
+  /** The rows on screen: passing the threshold, live or from an open snapshot. */
+  rows: MergedData[];
+  decimals: number;
+  labels: Record<string, string>;
+}
+
+export interface DatasetToolOutcome {
+  /** JSON-serialisable result handed back to the model. */
+  result: Record<string, unknown>;
+  /** Lowercase addresses of the rows the result is based on. */
+  addresses: string[];
+}
+
+export type AggregateOperation = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Tool arguments use the names people ask with; the filter fields underneath are the table's.
+const RANGE_ARGS: { field: FilterField; min: string; max: string }[] = [
+  { field: 'level', min: 'minLevel', max: 'maxLevel' },
+  { field: 'totalLgns', min: 'minSpiderReward', max: 'maxSpiderReward' },
+  { field: 'reward', min: 'minDaoReward', max: 'maxDaoReward' },
+  { field: 'eventCount', min: 'minEvents', max: 'maxEvents' },
+];
+
+export const DATASET_FIELDS: Record<string, FilterField> = {
+  level: 'level',
+  spiderReward: 'totalLgns',
+  daoReward: 'reward',
+  events: 'eventCount',
+};
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Turns tool arguments into the table's filter spec: every given bound and the optional
+ * address list must match.
+ */
+export const toolFilterSpec = (args: Record<string, unknown>): FilterSpec => {
+  const conditions: FilterCondition[] = RANGE_ARGS
+    .map(({ field, min, max }, index) => ({ id: `tool-${index}`, kind: 'range' as const, field, min: toNumber(args[min]), max: toNumber(args[max]) }))
+    .filter(condition => condition.min !== undefined || condition.max !== undefined);
+  if (Array.isArray(args.addresses) && args.addresses.length > 0) {
+    conditions.push({ id: 'tool-addresses', kind: 'include', addresses: args.addresses.map(address => String(address).toLowerCase()) });
+  }
+  return { combinator: 'and', groups: conditions.length ? [{ id: 'tool', combinator: 'and', conditions }] : [] };
+};
+
+// Spider reward stays exact as a decimal string; the other fields are plain numbers.
+const fieldValue = (row: MergedData, field: FilterField, decimals: number): number =>
+  field === 'totalLgns' ? Number(toDecimalString(row.totalLgns, decimals)) : row[field];
+
+const compareRows = (field: FilterField) => (a: MergedData, b: MergedData) => {
+  if (field === 'totalLgns') return a.totalLgns === b.totalLgns ? 0 : a.totalLgns < b.totalLgns ? -1 : 1;
+  return a[field] - b[field];
+};
+
+const summarizeRow = (row: MergedData, { decimals, labels }: DatasetToolContext) => ({
+  address: row.address,
+  label: labels[row.address],
+  level: row.level,
+  daoReward: row.reward,
+  spiderReward: toDecimalString(row.totalLgns, decimals),
+  events: row.eventCount,
+  firstBlock: row.firstBlock,
+  lastBlock: row.lastBlock,
+  // Pending or failed lookups report level and DAO reward as 0, which is not a real zero.
+  rewardStatus: row.isFetchingReward ? 'pending' : row.error ? 'failed' : 'ok',
+});
+
+const aggregate = (values: number[], operation: AggregateOperation) => {
+  if (operation === 'count') return values.length;
+  if (values.length === 0) return null;
+  switch (operation) {
+    case 'sum': return values.reduce((acc, value) => acc + value, 0);
+    case 'avg': return values.reduce((acc, value) => acc + value, 0) / values.length;
+    case 'min': return Math.min(...values);
+    default: return Math.max(...values);
+  }
+};
+
+const queryRows = (args: Record<string, unknown>, context: DatasetToolContext): DatasetToolOutcome => {
+  const matched = context.rows.filter(row => matchesFilter(row, toolFilterSpec(args), context.decimals));
+  const sortField = DATASET_FIELDS[String(args.sortBy)] || 'totalLgns';
+  const sorted = [...matched].sort(compareRows(sortField));
+  if (args.order !== 'asc') sorted.reverse();
+  const limit = Math.min(CHAT_ROW_LIMIT, Math.max(1, toNumber(args.limit) ?? CHAT_ROW_LIMIT));
+  return {
+    result: {
+      matched: matched.length,
+      returned: Math.min(limit, matched.length),
+      rows: sorted.slice(0, limit).map(row => summarizeRow(row, context)),
+    },
+    addresses: sorted.map(row => row.address),
+  };
+};
+
+const aggregateRows = (args: Record<string, unknown>, context: DatasetToolContext): DatasetToolOutcome => {
+  const matched = context.rows.filter(row => matchesFilter(row, toolFilterSpec(args), context.decimals));
+  const field = DATASET_FIELDS[String(args.field)] || 'totalLgns';
+  const operation = (['count', 'sum', 'avg', 'min', 'max'].includes(String(args.operation)) ? args.operation : 'count') as AggregateOperation;
+  const groups = new Map<string, MergedData[]>();
+  matched.forEach(row => {
+    const key = args.groupBy === 'level' ? String(row.level) : 'all';
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return {
+    result: {
+      matched: matched.length,
+      field: args.field || 'spiderReward',
+      operation,
+      groups: Array.from(groups.entries())
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([group, rows]) => ({ group, rows: rows.length, value: aggregate(rows.map(row => fieldValue(row, field, context.decimals)), operation) })),
+    },
+    addresses: matched.map(row => row.address),
+  };
+};
+
+const getAddress = (args: Record<string, unknown>, context: DatasetToolContext): DatasetToolOutcome => {
+  const address = String(args.address || '').toLowerCase();
+  const row = context.rows.find(candidate => candidate.address === address);
+  if (!row) return { result: { found: false, address }, addresses: [] };
+  return {
+    result: {
+      found: true,
+      ...summarizeRow(row, context),
+      minSingleEvent: toDecimalString(row.minLgns, context.decimals),
+      maxSingleEvent: toDecimalString(row.maxLgns, context.decimals),
+      latestEvent: toDecimalString(row.latestLgns, context.decimals),
+      latestTxHash: row.latestTxHash,
+      rewardRecords: row.rewardRecords?.map(record => ({ level: record.level, reward: record.reward })),
+      rewardError: row.error,
+    },
+    addresses: [row.address],
+  };
+};
+
+const TOOLS: Record<string, (args: Record<string, unknown>, context: DatasetToolContext) => DatasetToolOutcome> = {
+  query_rows: queryRows,
+  aggregate_rows: aggregateRows,
+  get_address: getAddress,
+};
+
+/**
+ * Runs one dataset tool call. Unknown tools come back as an error result for the model
+ * rather than throwing, so it can correct itself.
+ */
+export const runDatasetTool = (name: string, args: Record<string, unknown>, context: DatasetToolContext): DatasetToolOutcome => {
+  const tool = TOOLS[name];
+  if (!tool) return { result: { error: `Unknown tool "${name}". Available: ${Object.keys(TOOLS).join(', ')}.` }, addresses: [] };
+  return tool(args || {}, context);
+};
@@ -0,0 +1,69 @@
+import { FilterCondition, FilterField, FilterGroup, FilterSpec, MergedData } from '../types.ts';
+import { parseAmount } from './amount.ts';
+
+export const FILTER_FIELD_LABELS: Record<FilterField, string> = {
+  level: 'Level',
+  reward: 'DAO Reward',
+  totalLgns: 'Spider Reward (Total)',
+  eventCount: 'Event Count',
+};
+
+export const EMPTY_FILTER: FilterSpec = { combinator: 'and', groups: [] };
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+export const createCondition = (kind: FilterCondition['kind'] = 'range'): FilterCondition =>
+  kind === 'range' ? { id: newId(), kind, field: 'level' } : { id: newId(), kind, addresses: [] };
+
+export const createGroup = (): FilterGroup => ({ id: newId(), combinator: 'and', conditions: [createCondition()] });
+
+/**
+ * A condition with nothing filled in yet (no bounds, no addresses) is ignored rather than
+ * matching nothing, so rows do not vanish while the user is still typing.
+ */
+const isBlank = (condition: FilterCondition) =>
+  condition.kind === 'range'
+    ? condition.min === undefined && condition.max === undefined
+    : !condition.addresses || condition.addresses.length === 0;
+
+export const isFilterActive = (spec: FilterSpec) =>
+  spec.groups.some(group => group.conditions.some(condition => !isBlank(condition)));
+
+const inRange = (value: bigint | number, condition: FilterCondition, toComparable: (n: number) => bigint | number) =>
+  (condition.min === undefined || value >= toComparable(condition.min)) &&
+  (condition.max === undefined || value <= toComparable(condition.max));
+
+const matchesCondition = (row: MergedData, condition: FilterCondition, decimals?: number) => {
+  if (condition.kind === 'include') return condition.addresses!.includes(row.address);
+  if (condition.kind === 'exclude') return !condition.addresses!.includes(row.address);
+  switch (condition.field) {
+    case 'level': return inRange(row.level, condition, n => n);
+    case 'reward': return inRange(row.reward, condition, n => n);
+    case 'eventCount': return inRange(row.eventCount, condition, n => n);
+    // Raw amounts are compared against bounds scaled to the same integer units.
+    case 'totalLgns': return inRange(row.totalLgns, condition, n => parseAmount(n, decimals));
+    default: return true;
+  }
+};
+
+const combine = <T>(items: T[], combinator: 'and' | 'or', test: (item: T) => boolean) =>
+  combinator === 'and' ? items.every(test) : items.some(test);
+
+/**
+ * Evaluates the filter against one row. Blank conditions and empty groups are skipped.
+ */
+export const matchesFilter = (row: MergedData, spec: FilterSpec, decimals?: number): boolean => {
+  const groups = spec.groups
+    .map(group => ({ ...group, conditions: group.conditions.filter(condition => !isBlank(condition)) }))
+    .filter(group => group.conditions.length > 0);
+  if (groups.length === 0) return true;
+  return combine(groups, spec.combinator, group =>
+    combine(group.conditions, group.combinator, condition => matchesCondition(row, condition, decimals))
+  );
+};
+
+/**
+ * Splits pasted text into lowercase addresses; any whitespace, comma or semicolon separates.
+ */
+export const parseAddressList = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(entry => entry.trim().toLowerCase()).filter(Boolean)));
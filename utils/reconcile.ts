@@ -0,0 +1,64 @@
+import { ImportedRow, MergedData, ReconciliationReport } from '../types.ts';
+import { AmountMetric, metricValue } from './aggregation.ts';
+
+/**
+ * Matches imported rows against the current data. Amounts differing by more than `tolerance`
+ * raw units are mismatches, and rows without an amount are reported rather than matched;
+ * levels are only compared where both sides know them. Rows outside `inScope`, e.g. below the
+ * view threshold, still match imported addresses but are not reported missing from the file.
+ */
+export const reconcile = (
+  imported: ImportedRow[],
+  current: MergedData[],
+  { metric, tolerance, inScope = () => true }: { metric: AmountMetric; tolerance: bigint; inScope?: (row: MergedData) => boolean }
+): ReconciliationReport => {
+  const currentMap = new Map(current.map(row => [row.address, row]));
+  const seen = new Set<string>();
+  const report: ReconciliationReport = {
+    matched: 0,
+    missingFromCurrent: [],
+    missingFromFile: [],
+    amountMismatches: [],
+    levelMismatches: [],
+    withoutAmount: [],
+    duplicates: [],
+  };
+
+  imported.forEach(entry => {
+    if (seen.has(entry.address)) {
+      report.duplicates.push(entry.address);
+      return;
+    }
+    seen.add(entry.address);
+
+    const row = currentMap.get(entry.address);
+    if (!row) {
+      report.missingFromCurrent.push(entry);
+      return;
+    }
+    let matches = true;
+    if (entry.amount === undefined) {
+      report.withoutAmount.push(entry.address);
+      matches = false;
+    } else {
+      const value = metricValue(row, metric);
+      const difference = value > entry.amount ? value - entry.amount : entry.amount - value;
+      if (difference > tolerance) {
+        report.amountMismatches.push({ address: entry.address, imported: entry.amount, current: value });
+        matches = false;
+      }
+    }
+    // Rows still waiting for (or missing) their Ocros lookup have no reliable level.
+    if (entry.level !== undefined && !row.error && !row.isFetchingReward && entry.level !== row.level) {
+      report.levelMismatches.push({ address: entry.address, imported: entry.level, current: row.level });
+      matches = false;
+    }
+    if (matches) report.matched++;
+  });
+
+  current.forEach(row => {
+    if (!seen.has(row.address) && inScope(row)) report.missingFromFile.push(row.address);
+  });
+
+  return report;
+};
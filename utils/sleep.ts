@@ -0,0 +1,21 @@
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it aborts (immediately
+ * when it already has).
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    // Long-lived scan signals outlast many sleeps, so the listener must not outlive the timer.
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,44 @@
+import { MergedData, SnapshotDiff } from '../types.ts';
+
+/**
+ * Compares two result sets address by address. `base` is the older side.
+ */
+export const diffSnapshots = (base: MergedData[], current: MergedData[]): SnapshotDiff => {
+  const baseMap = new Map(base.map(row => [row.address, row]));
+  const currentMap = new Map(current.map(row => [row.address, row]));
+  const diff: SnapshotDiff = {
+    newAddresses: [],
+    droppedAddresses: [],
+    levelChanges: [],
+    rewardChanges: [],
+    outputChanges: [],
+  };
+
+  currentMap.forEach((row, address) => {
+    const previous = baseMap.get(address);
+    if (!previous) {
+      diff.newAddresses.push(address);
+      return;
+    }
+    if (previous.level !== row.level) diff.levelChanges.push({ address, from: previous.level, to: row.level });
+    if (previous.reward !== row.reward) diff.rewardChanges.push({ address, from: previous.reward, to: row.reward });
+    if (previous.totalLgns !== row.totalLgns) diff.outputChanges.push({ address, from: previous.totalLgns, to: row.totalLgns });
+  });
+  baseMap.forEach((_, address) => {
+    if (!currentMap.has(address)) diff.droppedAddresses.push(address);
+  });
+
+  return diff;
+};
+
+/**
+ * Relative change as a signed percentage string ("+4.2%"), or undefined without a baseline.
+ */
+export const formatTrend = (current: number | bigint, previous: number | bigint | undefined): string | undefined => {
+  if (previous === undefined) return undefined;
+  const prev = Number(previous);
+  const curr = Number(current);
+  if (prev === 0) return curr === 0 ? '+0.0%' : undefined;
+  const change = ((curr - prev) / Math.abs(prev)) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
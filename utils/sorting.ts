@@ -0,0 +1,74 @@
+import { MergedData } from '../types.ts';
+import { AmountMetric, metricValue } from './aggregation.ts';
+import { compareAmounts } from './amount.ts';
+
+export type SortKey = 'address' | 'label' | 'level' | 'reward' | 'latestTx' | 'metric';
+
+export interface SortRule {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+const SORT_KEYS: SortKey[] = ['address', 'label', 'level', 'reward', 'latestTx', 'metric'];
+
+export const DEFAULT_SORT: SortRule[] = [{ key: 'metric', direction: 'desc' }];
+
+/**
+ * Plain click sorts by one column, cycling desc -> asc -> off. Shift-click adds the column
+ * as a tie-breaker, or cycles it in place when it is already part of the sort.
+ */
+export const nextSortRules = (rules: SortRule[], key: SortKey, additive: boolean): SortRule[] => {
+  const existing = rules.find(rule => rule.key === key);
+  const cycled: SortRule | null = !existing
+    ? { key, direction: 'desc' }
+    : existing.direction === 'desc' ? { key, direction: 'asc' } : null;
+
+  if (!additive) return cycled ? [cycled] : [];
+  if (!existing) return [...rules, cycled!];
+  return cycled ? rules.map(rule => (rule.key === key ? cycled : rule)) : rules.filter(rule => rule.key !== key);
+};
+
+interface SortContext {
+  metric: AmountMetric;
+  labels: Record<string, string>;
+}
+
+const compareBy = (a: MergedData, b: MergedData, key: SortKey, { metric, labels }: SortContext): number => {
+  switch (key) {
+    case 'address': return a.address.localeCompare(b.address);
+    // Unlabeled rows sort after labeled ones in ascending order.
+    case 'label': return (labels[a.address] ?? '\uffff').localeCompare(labels[b.address] ?? '\uffff');
+    case 'latestTx': return (a.latestEvent.blockNumber - b.latestEvent.blockNumber) || (a.latestEvent.logIndex - b.latestEvent.logIndex);
+    case 'metric': return compareAmounts(metricValue(a, metric), metricValue(b, metric));
+    default: return (Number(a[key]) || 0) - (Number(b[key]) || 0);
+  }
+};
+
+/**
+ * Sorts by each rule in turn; with no rules the chosen metric, largest first, still applies.
+ */
+export const sortRows = (rows: MergedData[], rules: SortRule[], context: SortContext): MergedData[] => {
+  const effective = rules.length > 0 ? rules : DEFAULT_SORT;
+  return [...rows].sort((a, b) => {
+    for (const rule of effective) {
+      const order = compareBy(a, b, rule.key, context);
+      if (order !== 0) return rule.direction === 'asc' ? order : -order;
+    }
+    return 0;
+  });
+};
+
+/**
+ * `metric:desc,address:asc` form used in the URL.
+ */
+export const formatSortParam = (rules: SortRule[]) =>
+  rules.map(rule => `${rule.key}:${rule.direction}`).join(',');
+
+export const parseSortParam = (value: string | null): SortRule[] | null => {
+  if (value === null) return null;
+  return value.split(',').flatMap(part => {
+    const [key, direction] = part.split(':');
+    if (!SORT_KEYS.includes(key as SortKey) || (direction !== 'asc' && direction !== 'desc')) return [];
+    return [{ key: key as SortKey, direction }];
+  });
+};
@@ -0,0 +1,84 @@
+import { LGNSEvent } from '../types.ts';
+import { amountToNumber } from './amount.ts';
+
+export type BucketMode = 'blocks' | 'hour';
+
+export interface TimeBucket {
+  key: number;
+  label: string;
+  total: bigint;
+  activeAddresses: number;
+  cumulative: bigint;
+}
+
+const HOUR_SECONDS = 3600;
+// Beyond this many buckets the chart is unreadable anyway, so quiet ones are not filled in.
+const MAX_EMPTY_FILL_BUCKETS = 5000;
+
+const formatHour = (key: number) => {
+  const iso = new Date(key * 1000).toISOString();
+  return `${iso.slice(5, 10)} ${iso.slice(11, 13)}:00`;
+};
+
+/**
+ * Buckets events by block range or by UTC wall-clock hour. `timeOf` maps a block to its
+ * unix timestamp and is only consulted in hour mode; events it cannot place are skipped.
+ * With a scanned `range`, every bucket across it is returned, quiet ones at zero.
+ */
+export const bucketEvents = (
+  events: LGNSEvent[],
+  mode: BucketMode,
+  bucketBlocks: number,
+  timeOf: (block: number) => number | null,
+  range?: { start: number; end: number } | null
+): TimeBucket[] => {
+  const buckets = new Map<number, { total: bigint; addresses: Set<string> }>();
+  const width = Math.max(1, bucketBlocks);
+  const step = mode === 'hour' ? HOUR_SECONDS : width;
+  const keyOf = (block: number) => {
+    if (mode === 'blocks') return Math.floor(block / width) * width;
+    const timestamp = timeOf(block);
+    return timestamp === null ? null : Math.floor(timestamp / HOUR_SECONDS) * HOUR_SECONDS;
+  };
+
+  if (range) {
+    const first = keyOf(range.start);
+    const last = keyOf(range.end);
+    if (first !== null && last !== null && (last - first) / step < MAX_EMPTY_FILL_BUCKETS) {
+      for (let key = first; key <= last; key += step) buckets.set(key, { total: 0n, addresses: new Set<string>() });
+    }
+  }
+
+  events.forEach(event => {
+    const key = keyOf(event.blockNumber);
+    if (key === null) return;
+    const bucket = buckets.get(key) || { total: 0n, addresses: new Set<string>() };
+    bucket.total += event.amount;
+    bucket.addresses.add(event.address);
+    buckets.set(key, bucket);
+  });
+
+  let running = 0n;
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([key, bucket]) => {
+      running += bucket.total;
+      return {
+        key,
+        label: mode === 'hour' ? formatHour(key) : `#${key.toLocaleString()}`,
+        total: bucket.total,
+        activeAddresses: bucket.addresses.size,
+        cumulative: running,
+      };
+    });
+};
+
+/**
+ * Chart-ready rows; amounts become lossy numbers here and nowhere earlier.
+ */
+export const toChartRows = (buckets: TimeBucket[], decimals?: number) => buckets.map(bucket => ({
+  label: bucket.label,
+  total: amountToNumber(bucket.total, decimals),
+  cumulative: amountToNumber(bucket.cumulative, decimals),
+  activeAddresses: bucket.activeAddresses,
+}));
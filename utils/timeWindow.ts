@@ -0,0 +1,66 @@
+import { ScanWindow, WindowPreset } from '../types.ts';
+
+const DAY = 86400;
+
+export const WINDOW_PRESET_LABELS: Record<WindowPreset, string> = {
+  blocks: 'Latest N Blocks',
+  last24h: 'Last 24 Hours',
+  last7d: 'Last 7 Days',
+  last30d: 'Last 30 Days',
+  todayUtc: 'Today (UTC)',
+  yesterdayUtc: 'Yesterday (UTC)',
+  lastWeekUtc: 'Last Week (UTC, Mon–Sun)',
+  lastMonthUtc: 'Last Month (UTC)',
+  custom: 'Custom Range (UTC)',
+};
+
+/**
+ * Resolves a window to [from, to) in unix seconds, or null when it is a plain block count.
+ * Relative presets are evaluated against `nowMs`, so they move forward on every sync.
+ */
+export const windowTimeBounds = (window: ScanWindow, nowMs: number = Date.now()): { from: number; to: number } | null => {
+  const now = Math.floor(nowMs / 1000);
+  const today = now - (now % DAY);
+  const date = new Date(today * 1000);
+
+  switch (window.preset) {
+    case 'blocks': return null;
+    case 'last24h': return { from: now - DAY, to: now };
+    case 'last7d': return { from: now - 7 * DAY, to: now };
+    case 'last30d': return { from: now - 30 * DAY, to: now };
+    case 'todayUtc': return { from: today, to: now };
+    case 'yesterdayUtc': return { from: today - DAY, to: today };
+    case 'lastWeekUtc': {
+      // getUTCDay() is 0 on Sunday; weeks start on Monday.
+      const monday = today - ((date.getUTCDay() + 6) % 7) * DAY;
+      return { from: monday - 7 * DAY, to: monday };
+    }
+    case 'lastMonthUtc': return {
+      from: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1) / 1000,
+      to: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000,
+    };
+    case 'custom': {
+      if (!window.from || !window.to || window.from >= window.to) {
+        throw new Error('A custom window needs a start before its end.');
+      }
+      return { from: window.from, to: window.to };
+    }
+  }
+};
+
+/**
+ * Unix seconds to the `YYYY-MM-DDTHH:mm` form of a datetime-local input, in UTC.
+ */
+export const toUtcInputValue = (seconds?: number) =>
+  seconds ? new Date(seconds * 1000).toISOString().slice(0, 16) : '';
+
+/**
+ * Reads a datetime-local input value as UTC; empty or invalid input gives undefined.
+ */
+export const fromUtcInputValue = (value: string) => {
+  const ms = Date.parse(`${value}Z`);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+};
+
+export const formatUtc = (seconds: number | null) =>
+  seconds === null ? '---' : `${new Date(seconds * 1000).toISOString().slice(0, 16).replace('T', ' ')} UTC`;